@@ -6,11 +6,12 @@ export interface IExecuteFunctions {
   getNodeParameter(name: string, index: number, defaultValue?: any): any;
   continueOnFail(): boolean;
   getNode(): any;
+  getTimezone(): string;
 }
 
 export interface INodeExecutionData {
   json: any;
-  pairedItem?: { item: number };
+  pairedItem?: { item: number } | Array<{ item: number }>;
 }
 
 export interface INodeType {
@@ -1,40 +1,114 @@
-import { VariableMap } from "./types";
-import { Lexer } from "./lexer";
-import { Parser } from "./parser";
-import { Interpreter } from "./interpreter";
-import { extractAllVariables } from "./utils";
 import {
+  CompileOptions,
+  MappingType,
+  NamedTemplate,
+  OutputFormat,
+  PartialLoader,
+  RenderOptions,
+  TraceEntry,
+  VariableMap,
+} from "./types";
+import { compileTemplate } from "./compiler";
+import {
+  combinePartialLoaders,
+  createDirectoryPartialLoader,
+  createMapPartialLoader,
+} from "./partials";
+import {
+  convertMappingValue,
+  extractAllVariables,
+  extractVariableSchema,
+  itemVariables,
+  validateTemplate,
+} from "./utils";
+import {
+  IDataObject,
   IExecuteFunctions,
+  INode,
   INodeExecutionData,
   INodeType,
   INodeTypeDescription,
+  IPairedItemData,
   NodeOperationError,
 } from "n8n-workflow";
 
 /**
  * Main template resolution entry point
  *
+ * Parsed templates are cached by text, so repeated calls with the same
+ * template only pay for rendering.
+ *
  * @param template - Template string with conditional markdown syntax
  * @param variables - Variable mappings (name → value)
- * @param options - Configuration options (strictMode)
+ * @param options - Configuration options (strictMode, trimBlocks, partials,
+ *   locale, timeZone, now, outputFormat)
  * @returns Resolved markdown string
  */
 export function resolveTemplate(
   template: string,
   variables: VariableMap,
-  options?: { strictMode?: boolean }
+  options?: CompileOptions & RenderOptions
 ): string {
-  // Tokenize
-  const lexer = new Lexer(template);
-  const tokens = lexer.tokenize();
+  return compileTemplate(template, options)(variables, options);
+}
+
+/**
+ * Variable holding the outputs of earlier templates in resolveTemplates
+ */
+export const OUTPUTS_VARIABLE = "@outputs";
+
+/**
+ * Variable holding every input item's JSON when the node runs once for all
+ * items
+ */
+export const ITEMS_VARIABLE = "items";
+
+/**
+ * Render several named templates against one variable map
+ *
+ * Templates render in order, and each can read the outputs of the ones
+ * before it: ${{@outputs.subject}}, which is not escaped a second time.
+ * Errors and trace entries name the template they come from.
+ *
+ * @returns Rendered text by template name
+ */
+export function resolveTemplates(
+  templates: NamedTemplate[],
+  variables: VariableMap,
+  options?: CompileOptions & RenderOptions
+): Record<string, string> {
+  const outputs: Record<string, string> = {};
+  const renderOptions = {
+    ...options,
+    renderedVariables: [
+      ...(options?.renderedVariables ?? []),
+      OUTPUTS_VARIABLE,
+    ],
+  };
 
-  // Parse to AST
-  const parser = new Parser(tokens);
-  const ast = parser.parse();
+  for (const { name, template } of templates) {
+    const scope = new Map(variables).set(OUTPUTS_VARIABLE, { ...outputs });
+    const traced = options?.trace?.length ?? 0;
+    try {
+      outputs[name] = resolveTemplate(template, scope, renderOptions);
+    } catch (error) {
+      throw namedTemplateError(error, name);
+    } finally {
+      options?.trace?.slice(traced).forEach((entry) => (entry.template = name));
+    }
+  }
 
-  // Interpret
-  const interpreter = new Interpreter(variables, options);
-  return interpreter.interpret(ast);
+  return outputs;
+}
+
+/**
+ * Prefix an error with the name of the template it was raised in
+ */
+function namedTemplateError(error: unknown, name: string): unknown {
+  if (error instanceof Error) {
+    error.message = `In template "${name}": ${error.message}`;
+  }
+  return error;
 }
 
 /**
@@ -53,7 +127,143 @@ interface TemplateMetadata {
 interface VariableMappingsCollection {
   mappings?: Array<{
     variableName: string;
-    value: string;
+    type?: MappingType; // Missing in mappings saved before typed values
+    value?: unknown; // Auto and String
+    numberValue?: unknown;
+    booleanValue?: unknown;
+    jsonValue?: unknown; // JSON and Array
+  }>;
+}
+
+/**
+ * Raw value of a mapping: the field that matches its type
+ */
+function mappingValue(
+  mapping: NonNullable<VariableMappingsCollection["mappings"]>[number]
+): unknown {
+  switch (mapping.type ?? "auto") {
+    case "number":
+      return mapping.numberValue;
+    case "boolean":
+      return mapping.booleanValue;
+    case "json":
+    case "array":
+      return mapping.jsonValue;
+    default:
+      return mapping.value;
+  }
+}
+
+/**
+ * Validate the node's named templates: names are required and unique,
+ * output fields default to the name and must be unique too
+ */
+function namedTemplates(
+  collection: TemplatesCollection,
+  node: INode,
+  itemIndex: number
+): Array<NamedTemplate & { outputField: string }> {
+  const fail = (message: string) =>
+    new NodeOperationError(node, message, { itemIndex });
+
+  const entries = collection.template ?? [];
+  if (entries.length === 0) {
+    throw fail('Add at least one template to "Templates"');
+  }
+
+  const names = new Set<string>();
+  const outputFields = new Map<string, string>();
+  return entries.map((entry) => {
+    const name = entry.name?.trim();
+    if (!name) {
+      throw fail("Every template needs a name");
+    }
+    if (names.has(name)) {
+      throw fail(`Duplicate template name: ${name}`);
+    }
+    names.add(name);
+
+    const outputField = entry.outputField?.trim() || name;
+    const previous = outputFields.get(outputField);
+    if (previous !== undefined) {
+      throw fail(
+        `Duplicate output field: ${outputField} (templates "${previous}" and "${name}")`
+      );
+    }
+    outputFields.set(outputField, name);
+    return { name, template: entry.template ?? "", outputField };
+  });
+}
+
+/**
+ * Validate operation output: syntax errors of every template (named in
+ * Multiple Templates mode)
+ */
+function validationResult(
+  templates: NamedTemplate[],
+  options: CompileOptions,
+  templateMode: "single" | "multiple"
+): IDataObject {
+  const errors = templates.flatMap(({ name, template }) =>
+    validateTemplate(template, options).map((diagnostic) =>
+      templateMode === "multiple"
+        ? { template: name, ...diagnostic }
+        : diagnostic
+    )
+  );
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Check that a detected variable has a value; a hyphenated name (a-b) is
+ * also satisfied by mapped operands, which the template then subtracts.
+ * Operands the template binds itself (x-1 in a loop) never reach here:
+ * the collector records their operands instead.
+ */
+function isMapped(name: string, variables: VariableMap): boolean {
+  return (
+    variables.has(name) ||
+    (name.includes("-") &&
+      name
+        .split("-")
+        .every((part) => variables.has(part) || /^\d+(\.\d+)?$/.test(part)))
+  );
+}
+
+/**
+ * What the node does with its templates
+ */
+type Operation = "resolve" | "validate" | "extractVariables" | "explain";
+
+/**
+ * Where variables come from: the mappings, the input item's JSON, or the
+ * item with mappings on top
+ */
+type VariableSource = "mappings" | "item" | "itemAndMappings";
+
+/**
+ * Render once per input item, or once over all of them (`items`)
+ */
+type ExecutionMode = "perItem" | "allItems";
+
+/**
+ * Named templates from n8n node config ("Multiple Templates" mode)
+ */
+interface TemplatesCollection {
+  template?: Array<{
+    name: string;
+    template: string;
+    outputField?: string; // Defaults to the name
+  }>;
+}
+
+/**
+ * Inline partials from n8n node config
+ */
+interface PartialsCollection {
+  partial?: Array<{
+    name: string;
+    template: string;
   }>;
 }
 
@@ -80,6 +290,80 @@ export class TemplateResolver implements INodeType {
     inputs: ["main"],
     outputs: ["main"],
     properties: [
+      {
+        displayName: "Operation",
+        name: "operation",
+        type: "options",
+        noDataExpression: true,
+        options: [
+          {
+            name: "Explain",
+            value: "explain",
+            description:
+              "Resolve and add a trace of the IF branches, CASE arms and loop counts taken",
+            action: "Resolve a template and explain the result",
+          },
+          {
+            name: "Extract Variables",
+            value: "extractVariables",
+            description: "Output the variables the template needs",
+            action: "Extract the variables of a template",
+          },
+          {
+            name: "Resolve",
+            value: "resolve",
+            description: "Render the template with the variables",
+            action: "Resolve a template",
+          },
+          {
+            name: "Validate",
+            value: "validate",
+            description: "Check the template syntax without rendering",
+            action: "Validate a template",
+          },
+        ],
+        default: "resolve",
+      },
+      {
+        displayName: "Execution Mode",
+        name: "executionMode",
+        type: "options",
+        noDataExpression: true,
+        options: [
+          {
+            name: "Once for All Items",
+            value: "allItems",
+            description:
+              "Return one item, with every input item's JSON in the items variable",
+          },
+          {
+            name: "Once per Item",
+            value: "perItem",
+            description: "Return one item for each input item",
+          },
+        ],
+        default: "perItem",
+      },
+      {
+        displayName: "Template Mode",
+        name: "templateMode",
+        type: "options",
+        options: [
+          {
+            name: "Single Template",
+            value: "single",
+            description: "Render one template into one output field",
+          },
+          {
+            name: "Multiple Templates",
+            value: "multiple",
+            description:
+              "Render several named templates from the same variables, each into its own output field",
+          },
+        ],
+        default: "single",
+        description: "Whether the node renders one template or several",
+      },
       {
         displayName: "Template",
         name: "template",
@@ -89,6 +373,11 @@ export class TemplateResolver implements INodeType {
         },
         default: "",
         required: true,
+        displayOptions: {
+          show: {
+            templateMode: ["single"],
+          },
+        },
         description:
           "Template text with ${{variable}}, {{IF}}, {{CASE}}, {{FOR}}, {{TABLE}}, and {{LIST}} syntax",
         placeholder: `# \${{title}}
@@ -107,6 +396,107 @@ By \${{author}}
 - \${{item}}
 {{END_FOR}}`,
       },
+      {
+        displayName: "Templates",
+        name: "templates",
+        type: "fixedCollection",
+        typeOptions: {
+          multipleValues: true,
+          sortable: true,
+        },
+        displayOptions: {
+          show: {
+            templateMode: ["multiple"],
+          },
+        },
+        default: {},
+        description:
+          "Templates rendered in order from the same variables. Later templates can use the output of earlier ones as ${{@outputs.name}}.",
+        placeholder: "Add template",
+        options: [
+          {
+            name: "template",
+            displayName: "Template",
+            values: [
+              {
+                displayName: "Name",
+                name: "name",
+                type: "string",
+                default: "",
+                required: true,
+                description:
+                  'Name other templates use to read this output (e.g. "subject" for ${{@outputs.subject}})',
+                placeholder: "subject",
+              },
+              {
+                displayName: "Output Field",
+                name: "outputField",
+                type: "string",
+                default: "",
+                description:
+                  "Name of the field to store the rendered template (defaults to the name)",
+              },
+              {
+                displayName: "Template",
+                name: "template",
+                type: "string",
+                typeOptions: {
+                  rows: 5,
+                },
+                default: "",
+                description: "Template text",
+              },
+            ],
+          },
+        ],
+      },
+      {
+        displayName: "Variable Source",
+        name: "variableSource",
+        type: "options",
+        displayOptions: {
+          show: {
+            operation: ["resolve", "explain"],
+            executionMode: ["perItem"],
+          },
+        },
+        options: [
+          {
+            name: "Mappings Only",
+            value: "mappings",
+            description: "Only the variables mapped below",
+          },
+          {
+            name: "Whole Input Item",
+            value: "item",
+            description: "Every field of the input item's JSON is a variable",
+          },
+          {
+            name: "Item Plus Mapping Overrides",
+            value: "itemAndMappings",
+            description:
+              "Fields of the input item's JSON, with mappings added on top (a mapping replaces a field of the same name)",
+          },
+        ],
+        default: "mappings",
+        description: "Where template variables come from",
+      },
+      {
+        displayName: "Item Path",
+        name: "itemPath",
+        type: "string",
+        default: "",
+        description:
+          "Dotted path to the object inside the input item's JSON to use as variables (e.g. body.customer). Leave empty to use the whole item.",
+        placeholder: "body.customer",
+        displayOptions: {
+          show: {
+            operation: ["resolve", "explain"],
+            executionMode: ["perItem"],
+            variableSource: ["item", "itemAndMappings"],
+          },
+        },
+      },
       {
         displayName: "Variable Mappings",
         name: "variableMappings",
@@ -114,6 +504,12 @@ By \${{author}}
         typeOptions: {
           multipleValues: true,
         },
+        displayOptions: {
+          show: {
+            operation: ["resolve", "explain"],
+            variableSource: ["mappings", "itemAndMappings"],
+          },
+        },
         default: {},
         description:
           "Map template variables to values. Use static values or n8n expressions like {{ $JSON.fieldName }}.",
@@ -124,7 +520,7 @@ By \${{author}}
             displayName: "Mapping",
             values: [
               {
-                displayName: "Variable Name",
+                displayName: "Name",
                 name: "variableName",
                 type: "string",
                 default: "",
@@ -133,6 +529,46 @@ By \${{author}}
                   'Name of the variable in the template (e.g., "title" for ${{title}})',
                 placeholder: "title",
               },
+              {
+                displayName: "Type",
+                name: "type",
+                type: "options",
+                options: [
+                  {
+                    name: "Array",
+                    value: "array",
+                    description: "JSON array, for FOR loops and list filters",
+                  },
+                  {
+                    name: "Auto",
+                    value: "auto",
+                    description:
+                      "Use the value as n8n passes it; JSON text is detected when the template reads it",
+                  },
+                  {
+                    name: "Boolean",
+                    value: "boolean",
+                  },
+                  {
+                    name: "JSON",
+                    value: "json",
+                    description:
+                      "Any JSON value (object, array, text, number, ...)",
+                  },
+                  {
+                    name: "Number",
+                    value: "number",
+                  },
+                  {
+                    name: "String",
+                    value: "string",
+                    description: "Text; objects and arrays are written as JSON",
+                  },
+                ],
+                default: "auto",
+                description:
+                  "Type the value is validated and converted to before rendering",
+              },
               {
                 displayName: "Value",
                 name: "value",
@@ -140,6 +576,50 @@ By \${{author}}
                 default: "",
                 description: "Value to substitute (supports n8n expressions)",
                 placeholder: "={{ $json.title }}",
+                displayOptions: {
+                  show: {
+                    type: ["auto", "string"],
+                  },
+                },
+              },
+              {
+                displayName: "Value",
+                name: "numberValue",
+                type: "number",
+                default: 0,
+                description: "Number to substitute (supports n8n expressions)",
+                displayOptions: {
+                  show: {
+                    type: ["number"],
+                  },
+                },
+              },
+              {
+                displayName: "Value",
+                name: "booleanValue",
+                type: "boolean",
+                default: false,
+                description:
+                  "Whether the variable is true (supports n8n expressions)",
+                displayOptions: {
+                  show: {
+                    type: ["boolean"],
+                  },
+                },
+              },
+              {
+                displayName: "Value",
+                name: "jsonValue",
+                type: "json",
+                default: "",
+                description:
+                  "JSON value to substitute (supports n8n expressions)",
+                placeholder: "={{ $json.items }}",
+                displayOptions: {
+                  show: {
+                    type: ["json", "array"],
+                  },
+                },
               },
             ],
           },
@@ -149,14 +629,146 @@ By \${{author}}
         displayName: "Strict Mode",
         name: "strictMode",
         type: "boolean",
+        displayOptions: {
+          show: {
+            operation: ["resolve", "explain"],
+          },
+        },
         default: true,
         description:
           "Whether to throw an error if template variables are missing. If disabled, missing variables become empty strings.",
       },
+      {
+        displayName: "Trim Block Lines",
+        name: "trimBlocks",
+        type: "boolean",
+        default: false,
+        description:
+          "Whether to drop the line a block tag ({{IF}}, {{FOR}}, {{END_*}}, ...) sits on when the tag is alone on that line, so block tags leave no blank lines in the output",
+      },
+      {
+        displayName: "Output Format",
+        name: "outputFormat",
+        type: "options",
+        displayOptions: {
+          show: {
+            operation: ["resolve", "explain"],
+          },
+        },
+        options: [
+          {
+            name: "HTML",
+            value: "html",
+            description: "Escape &, &lt;, &gt; and quotes as HTML entities",
+          },
+          {
+            name: "JSON String",
+            value: "json",
+            description:
+              "Escape quotes, backslashes and newlines for use inside a JSON string",
+          },
+          {
+            name: "Markdown",
+            value: "markdown",
+            description: "Escape markdown special characters",
+          },
+          {
+            name: "Plain Text",
+            value: "plain",
+            description: "Insert values unchanged",
+          },
+          {
+            name: "XML",
+            value: "xml",
+            description: "Escape &, &lt;, &gt; and quotes as XML entities",
+          },
+        ],
+        default: "plain",
+        description:
+          "Format the template produces. Every ${{ }} substitution is escaped for it; add | raw to insert a value unchanged.",
+      },
+      {
+        displayName: "Locale",
+        name: "locale",
+        type: "string",
+        displayOptions: {
+          show: {
+            operation: ["resolve", "explain"],
+          },
+        },
+        default: "en-US",
+        description:
+          'Default locale of the number, currency, date and other formatting filters (e.g. de-DE). A filter\'s own locale="..." parameter takes precedence.',
+        placeholder: "de-DE",
+      },
+      {
+        displayName: "Partials",
+        name: "partials",
+        type: "fixedCollection",
+        displayOptions: {
+          show: {
+            operation: ["resolve", "explain"],
+          },
+        },
+        typeOptions: {
+          multipleValues: true,
+        },
+        default: {},
+        description:
+          'Reusable templates for {{INCLUDE "name"}} and {{EXTENDS "name"}}. Take precedence over files in the partials directory.',
+        placeholder: "Add partial",
+        options: [
+          {
+            name: "partial",
+            displayName: "Partial",
+            values: [
+              {
+                displayName: "Name",
+                name: "name",
+                type: "string",
+                default: "",
+                required: true,
+                description:
+                  'Name used in the include tag (e.g., "safety/base" for {{INCLUDE "safety/base"}})',
+                placeholder: "safety/base",
+              },
+              {
+                displayName: "Template",
+                name: "template",
+                type: "string",
+                typeOptions: {
+                  rows: 5,
+                },
+                default: "",
+                description: "Partial template text",
+              },
+            ],
+          },
+        ],
+      },
+      {
+        displayName: "Partials Directory",
+        name: "partialsDirectory",
+        type: "string",
+        displayOptions: {
+          show: {
+            operation: ["resolve", "explain"],
+          },
+        },
+        default: "",
+        description:
+          'Local directory of .tpl files for {{INCLUDE}} and {{EXTENDS}} (self-hosted n8n only). {{INCLUDE "safety/base"}} loads safety/base.tpl.',
+        placeholder: "/home/node/.n8n/templates",
+      },
       {
         displayName: "Show Detected Variables",
         name: "showDetectedVariables",
         type: "boolean",
+        displayOptions: {
+          show: {
+            operation: ["resolve", "explain"],
+          },
+        },
         default: false,
         description:
           "Whether to include detected variables in the output (useful for debugging)",
@@ -166,6 +778,12 @@ By \${{author}}
         name: "outputField",
         type: "string",
         default: "resolved_prompt",
+        displayOptions: {
+          show: {
+            operation: ["resolve", "explain"],
+            templateMode: ["single"],
+          },
+        },
         description: "Name of the field to store the resolved template",
       },
     ],
@@ -175,39 +793,160 @@ By \${{author}}
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
 
-    for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+    // Directory loaders are shared by all items, so each file is read once
+    // per execution
+    const directoryLoaders = new Map<string, PartialLoader>();
+    const directoryLoader = (directory: string): PartialLoader => {
+      if (!directoryLoaders.has(directory)) {
+        directoryLoaders.set(
+          directory,
+          createDirectoryPartialLoader(directory)
+        );
+      }
+      return directoryLoaders.get(directory)!;
+    };
+
+    // Once for all items is a single run reading its parameters from the
+    // first item, and its result pairs with every input item
+    const executionMode = this.getNodeParameter(
+      "executionMode",
+      0,
+      "perItem"
+    ) as ExecutionMode;
+    const runs = executionMode === "allItems" ? items.slice(0, 1) : items;
+    const pairedItem = (
+      itemIndex: number
+    ): IPairedItemData | IPairedItemData[] =>
+      executionMode === "allItems"
+        ? items.map((_, item) => ({ item }))
+        : { item: itemIndex };
+
+    for (let itemIndex = 0; itemIndex < runs.length; itemIndex++) {
       try {
         // Get parameters
-        const template = this.getNodeParameter("template", itemIndex) as string;
-        const variableMappings = this.getNodeParameter(
-          "variableMappings",
+        const operation = this.getNodeParameter(
+          "operation",
           itemIndex,
-          {
-            mappings: [],
-          }
+          "resolve"
+        ) as Operation;
+        const templateMode = this.getNodeParameter(
+          "templateMode",
+          itemIndex,
+          "single"
+        ) as "single" | "multiple";
+        const templates =
+          templateMode === "multiple"
+            ? namedTemplates(
+                this.getNodeParameter("templates", itemIndex, {
+                  template: [],
+                }) as TemplatesCollection,
+                this.getNode(),
+                itemIndex
+              )
+            : [
+                {
+                  name: "template",
+                  template: this.getNodeParameter(
+                    "template",
+                    itemIndex
+                  ) as string,
+                  outputField: this.getNodeParameter(
+                    "outputField",
+                    itemIndex
+                  ) as string,
+                },
+              ];
+        const trimBlocks = this.getNodeParameter(
+          "trimBlocks",
+          itemIndex,
+          false
+        ) as boolean;
+
+        // Checks that do not render
+        if (operation === "validate") {
+          returnData.push({
+            json: validationResult(templates, { trimBlocks }, templateMode),
+            pairedItem: pairedItem(itemIndex),
+          });
+          continue;
+        }
+        if (operation === "extractVariables") {
+          returnData.push({
+            json: {
+              variables: extractVariableSchema(
+                templates.map((t) => t.template)
+              ),
+            },
+            pairedItem: pairedItem(itemIndex),
+          });
+          continue;
+        }
+
+        const variableSource = (
+          executionMode === "allItems"
+            ? "mappings"
+            : this.getNodeParameter("variableSource", itemIndex, "mappings")
+        ) as VariableSource;
+        const variableMappings = (
+          variableSource === "item"
+            ? {}
+            : this.getNodeParameter("variableMappings", itemIndex, {
+                mappings: [],
+              })
         ) as VariableMappingsCollection;
         const strictMode = this.getNodeParameter(
           "strictMode",
           itemIndex
         ) as boolean;
+        const outputFormat = this.getNodeParameter(
+          "outputFormat",
+          itemIndex,
+          "plain"
+        ) as OutputFormat;
+        const locale = this.getNodeParameter(
+          "locale",
+          itemIndex,
+          "en-US"
+        ) as string;
+        const partials = this.getNodeParameter("partials", itemIndex, {
+          partial: [],
+        }) as PartialsCollection;
+        const partialsDirectory = (
+          this.getNodeParameter("partialsDirectory", itemIndex, "") as string
+        ).trim();
         const showDetectedVariables = this.getNodeParameter(
           "showDetectedVariables",
           itemIndex
         ) as boolean;
-        const outputField = this.getNodeParameter(
-          "outputField",
-          itemIndex
-        ) as string;
 
-        // Extract variables from template
-        const detectedVariables = extractAllVariables(template);
+        // Extract variables from all templates
+        const detectedVariables = Array.from(
+          new Set(templates.flatMap((t) => extractAllVariables(t.template)))
+        ).sort();
 
-        // Build variable map
-        const variables: VariableMap = new Map();
+        // Build variable map: input item fields (or all items) first,
+        // mappings override
+        const variables: VariableMap =
+          executionMode === "allItems"
+            ? new Map([[ITEMS_VARIABLE, items.map((item) => item.json)]])
+            : variableSource === "mappings"
+              ? new Map()
+              : itemVariables(
+                  items[itemIndex].json,
+                  this.getNodeParameter("itemPath", itemIndex, "") as string
+                );
         if (variableMappings.mappings?.length) {
           for (const mapping of variableMappings.mappings) {
-            if (mapping.variableName && mapping.value !== undefined) {
-              variables.set(mapping.variableName, mapping.value);
+            const value = mappingValue(mapping);
+            if (mapping.variableName && value !== undefined) {
+              variables.set(
+                mapping.variableName,
+                convertMappingValue(
+                  mapping.variableName,
+                  mapping.type ?? "auto",
+                  value
+                )
+              );
             }
           }
         }
@@ -215,7 +954,7 @@ By \${{author}}
         // Check for missing variables
         const mappedVariables = Array.from(variables.keys());
         const missingVariables = detectedVariables.filter(
-          (v) => !variables.has(v)
+          (v) => !isMapped(v, variables)
         );
 
         if (strictMode && missingVariables.length > 0) {
@@ -235,13 +974,48 @@ By \${{author}}
           }
         }
 
-        // Resolve template
-        const resolved = resolveTemplate(template, variables, { strictMode });
+        // Resolve templates (parsed once per distinct template text)
+        const inlinePartials = new Map(
+          (partials.partial ?? [])
+            .filter((p) => p.name)
+            .map((p) => [p.name, p.template ?? ""])
+        );
+        const trace: TraceEntry[] = [];
+        const options: CompileOptions & RenderOptions = {
+          trimBlocks,
+          trace: operation === "explain" ? trace : undefined,
+          strictMode,
+          outputFormat,
+          locale: locale.trim() || undefined,
+          timeZone: this.getTimezone(),
+          partials: combinePartialLoaders(
+            createMapPartialLoader(inlinePartials),
+            partialsDirectory ? directoryLoader(partialsDirectory) : undefined
+          ),
+        };
+        // A single template keeps its errors unprefixed
+        const resolved =
+          templateMode === "multiple"
+            ? resolveTemplates(templates, variables, options)
+            : {
+                [templates[0].name]: resolveTemplate(
+                  templates[0].template,
+                  variables,
+                  options
+                ),
+              };
 
         // Build output
-        const outputData: { [key: string]: string | TemplateMetadata } = {
-          [outputField]: resolved,
-        };
+        const outputData: {
+          [key: string]: string | TemplateMetadata | TraceEntry[];
+        } = {};
+        for (const entry of templates) {
+          outputData[entry.outputField] = resolved[entry.name];
+        }
+
+        if (operation === "explain") {
+          outputData._trace = trace;
+        }
 
         if (showDetectedVariables) {
           outputData._template_metadata = {
@@ -254,7 +1028,7 @@ By \${{author}}
 
         returnData.push({
           json: outputData,
-          pairedItem: { item: itemIndex },
+          pairedItem: pairedItem(itemIndex),
         });
       } catch (error) {
         // Handle template errors gracefully
@@ -264,7 +1038,7 @@ By \${{author}}
               error: (error as Error).message,
               error_type: (error as Error).name,
             },
-            pairedItem: { item: itemIndex },
+            pairedItem: pairedItem(itemIndex),
           });
           continue;
         }
@@ -273,3 +273,77 @@ export function tryCoerceToString(value: TemplateValue): string | null {
 
   return null;
 }
+
+/**
+ * ISO 8601 date or date-time: 2026-11-01, 2026-11-01T09:30, 2026-11-01 09:30:15.250+02:00
+ */
+const ISO_DATE =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,9}))?)?)?(Z|[+-]\d{2}:?\d{2})?$/i;
+
+/**
+ * Attempts to coerce a value to a date.
+ * Returns null if the value is not a date.
+ *
+ * Rules:
+ * - ISO 8601 strings; times without an offset (and plain dates) are UTC
+ * - Numbers and numeric strings are Unix timestamps: seconds below 1e11,
+ *   milliseconds otherwise; timestamps outside the Date range fail (1e21)
+ * - Invalid calendar dates fail (2026-02-30)
+ * - Other formats fail: "11/01/2026" is ambiguous across locales
+ */
+export function tryCoerceToDate(value: TemplateValue): Date | null {
+  if (typeof value === "number") {
+    if (!isFinite(value)) return null;
+    const date = new Date(Math.abs(value) < 1e11 ? value * 1000 : value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  if (typeof value !== "string") return null;
+
+  const trimmed = value.trim();
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) {
+    return tryCoerceToDate(Number(trimmed));
+  }
+
+  const match = trimmed.match(ISO_DATE);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, fraction, offset] = match;
+  const time = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour ?? 0),
+    Number(minute ?? 0),
+    Number(second ?? 0),
+    Number((fraction ?? "0").slice(0, 3).padEnd(3, "0"))
+  );
+
+  // Date.UTC rolls over invalid days (Feb 30 → Mar 2)
+  const date = new Date(time);
+  if (
+    date.getUTCMonth() !== Number(month) - 1 ||
+    date.getUTCDate() !== Number(day) ||
+    Number(hour ?? 0) > 23 ||
+    Number(minute ?? 0) > 59 ||
+    Number(second ?? 0) > 59
+  ) {
+    return null;
+  }
+
+  if (offset && offset.toUpperCase() !== "Z") {
+    const sign = offset[0] === "-" ? -1 : 1;
+    const digits = offset.slice(1).replace(":", "");
+    const minutes = Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2));
+    return new Date(time - sign * minutes * 60000);
+  }
+
+  return date;
+}
+
+/**
+ * Whether a value is a plain ISO calendar date (2026-11-01), without time
+ */
+export function isDateOnly(value: TemplateValue): boolean {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value.trim());
+}
@@ -0,0 +1,128 @@
+import {
+  CompileOptions,
+  ProgramNode,
+  RenderOptions,
+  VariableMap,
+} from "./types";
+import { Lexer } from "./lexer";
+import { Parser } from "./parser";
+import { Interpreter } from "./interpreter";
+
+/**
+ * Compiled template: renders a pre-parsed AST against a variable map
+ */
+export type CompiledTemplate = (
+  variables: VariableMap,
+  options?: RenderOptions
+) => string;
+
+/**
+ * LRU cache of parsed templates, keyed by template text (plus compile options)
+ *
+ * Map iteration order is insertion order, so the first key is always the
+ * least recently used entry. Reads re-insert the entry to mark it as fresh.
+ */
+export class TemplateCache {
+  private entries: Map<string, ProgramNode> = new Map();
+
+  constructor(private capacity = 100) {}
+
+  /**
+   * Get cached AST and mark it as most recently used
+   */
+  get(template: string): ProgramNode | undefined {
+    const ast = this.entries.get(template);
+    if (ast !== undefined) {
+      this.entries.delete(template);
+      this.entries.set(template, ast);
+    }
+    return ast;
+  }
+
+  /**
+   * Store AST, evicting the least recently used entry when full
+   */
+  set(template: string, ast: ProgramNode): void {
+    this.entries.delete(template);
+    this.entries.set(template, ast);
+
+    while (this.entries.size > this.capacity) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Check if template is cached (does not affect recency)
+   */
+  has(template: string): boolean {
+    return this.entries.has(template);
+  }
+
+  /**
+   * Remove all cached templates
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Number of cached templates
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Shared cache used by compileTemplate, resolveTemplate and the node
+ */
+export const templateCache = new TemplateCache();
+
+/**
+ * Build cache key: the same text compiled with different options yields a
+ * different AST
+ */
+function cacheKey(template: string, options?: CompileOptions): string {
+  return options?.trimBlocks ? `\0trimBlocks\0${template}` : template;
+}
+
+/**
+ * Tokenize and parse template, reusing the cached AST when available
+ */
+export function parseTemplate(
+  template: string,
+  options?: CompileOptions,
+  cache: TemplateCache = templateCache
+): ProgramNode {
+  const key = cacheKey(template, options);
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const tokens = new Lexer(template, options).tokenize();
+  const ast = new Parser(tokens).parse();
+
+  cache.set(key, ast);
+  return ast;
+}
+
+/**
+ * Compile template once into a reusable render function
+ *
+ * Parsing happens once per distinct template text; each render only walks
+ * the cached AST with a fresh interpreter.
+ */
+export function compileTemplate(
+  template: string,
+  options?: CompileOptions,
+  cache: TemplateCache = templateCache
+): CompiledTemplate {
+  const ast = parseTemplate(template, options, cache);
+
+  return (variables, renderOptions) => {
+    const interpreter = new Interpreter(variables, renderOptions, (source) =>
+      parseTemplate(source, options, cache)
+    );
+    return interpreter.interpret(ast);
+  };
+}
@@ -2,6 +2,11 @@
  * Base template error with rich context
  */
 export class TemplateError extends Error {
+  /**
+   * Unformatted message (without position and suggestion)
+   */
+  public readonly reason: string;
+
   constructor(
     message: string,
     public readonly line: number,
@@ -9,6 +14,7 @@ export class TemplateError extends Error {
     public readonly suggestion?: string
   ) {
     super(TemplateError.formatMessage(message, line, column, suggestion));
+    this.reason = message;
     this.name = "TemplateError";
     Object.setPrototypeOf(this, TemplateError.prototype);
   }
@@ -67,15 +73,56 @@ export class MissingVariableError extends TemplateError {
     variableName: string,
     line: number,
     column: number,
-    availableVariables: string[]
+    availableVariables: string[],
+    emptySuggestion = "No variables defined. Check variable mappings."
   ) {
     const message = `Variable '${variableName}' not found`;
     const suggestion =
       availableVariables.length > 0
         ? `Available variables: ${availableVariables.join(", ")}\nCheck variable name or enable Lenient Mode`
-        : "No variables defined. Check variable mappings.";
+        : emptySuggestion;
     super(message, line, column, suggestion);
     this.name = "MissingVariableError";
     Object.setPrototypeOf(this, MissingVariableError.prototype);
   }
 }
+
+/**
+ * Include error (missing partial, include cycle, or error inside a partial)
+ *
+ * Line and column point at the {{INCLUDE}} tag in the including template;
+ * errors raised inside the partial are chained into the message.
+ */
+export class IncludeError extends TemplateError {
+  constructor(
+    message: string,
+    public readonly partialName: string,
+    line: number,
+    column: number,
+    suggestion?: string
+  ) {
+    super(message, line, column, suggestion);
+    this.name = "IncludeError";
+    Object.setPrototypeOf(this, IncludeError.prototype);
+  }
+}
+
+/**
+ * Macro error (unknown macro, bad arguments, or error inside a macro body)
+ *
+ * Line and column point at the call site; errors raised inside the macro
+ * body are chained into the message.
+ */
+export class MacroError extends TemplateError {
+  constructor(
+    message: string,
+    public readonly macroName: string,
+    line: number,
+    column: number,
+    suggestion?: string
+  ) {
+    super(message, line, column, suggestion);
+    this.name = "MacroError";
+    Object.setPrototypeOf(this, MacroError.prototype);
+  }
+}
@@ -0,0 +1,716 @@
+import {
+  ExpressionNode,
+  LiteralExpression,
+  PathExpression,
+  UnaryExpression,
+  BinaryExpression,
+  LogicalExpression,
+  ComparisonExpression,
+  StringOpExpression,
+  TypeCheckExpression,
+  ConditionalExpression,
+  CallExpression,
+  NamedArgument,
+} from "./types";
+import { SyntaxError } from "./errors";
+
+/**
+ * Expression token kinds
+ */
+type ExpressionTokenKind =
+  | "number"
+  | "string"
+  | "identifier"
+  | "reference"
+  | "operator"
+  | "eof";
+
+/**
+ * Expression token with offset into the source text
+ */
+interface ExpressionToken {
+  kind: ExpressionTokenKind;
+  value: string;
+  offset: number;
+}
+
+/**
+ * Operators, longest first so ">=" wins over ">"
+ */
+const OPERATORS = [
+  "==",
+  "!=",
+  ">=",
+  "<=",
+  ">",
+  "<",
+  "=",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "(",
+  ")",
+  "?",
+  ":",
+  ",",
+];
+
+/**
+ * Characters that end an identifier
+ */
+const DELIMITERS = new Set([..."()\"'=!<>+-*/%?:,|{}", " ", "\t", "\n", "\r"]);
+
+/**
+ * String operators (matched case-insensitively)
+ */
+const STRING_OPS: Record<string, StringOpExpression["operator"]> = {
+  contains: "contains",
+  startswith: "startsWith",
+  endswith: "endsWith",
+};
+
+/**
+ * Postfix type checks (matched case-insensitively)
+ */
+const TYPE_CHECKS: Record<string, TypeCheckExpression["check"]> = {
+  isempty: "isEmpty",
+  isnotempty: "isNotEmpty",
+  isarray: "isArray",
+  isnumber: "isNumber",
+  isobject: "isObject",
+  isboolean: "isBoolean",
+};
+
+const COMPARISON_OPS = ["==", "!=", ">", "<", ">=", "<="];
+
+/**
+ * Expression parser: turns condition/math/ternary text into an expression AST
+ *
+ * Precedence (lowest first):
+ * ternary (? :) → OR → AND → NOT → comparison / string op / type check
+ * → + - → * / % → unary minus → literal, path, macro call, (group)
+ *
+ * Positions are reported relative to the template, so the caller passes the
+ * line/column where the expression text starts.
+ */
+export class ExpressionParser {
+  private tokens: ExpressionToken[] = [];
+  private pos = 0;
+
+  constructor(
+    private source: string,
+    private line = 1,
+    private column = 1
+  ) {}
+
+  /**
+   * Parse the whole source as a single expression
+   */
+  parse(): ExpressionNode {
+    this.tokens = this.tokenize();
+    this.pos = 0;
+
+    if (this.check("eof")) {
+      throw this.error("Empty expression", this.current());
+    }
+
+    const node = this.parseConditional();
+
+    if (!this.check("eof")) {
+      const token = this.current();
+      if (token.value === "=") {
+        throw this.error(
+          "Unexpected character '=' in expression",
+          token,
+          "Use == to compare values"
+        );
+      }
+      throw this.error(
+        `Unexpected '${token.value}' in expression`,
+        token,
+        this.keywordHint()
+      );
+    }
+
+    return node;
+  }
+
+  // ==================== Grammar ====================
+
+  /**
+   * condition ? consequent : alternate (right-associative)
+   */
+  private parseConditional(): ExpressionNode {
+    const test = this.parseOr();
+    if (!this.matchOperator("?")) return test;
+
+    const consequent = this.parseConditional();
+    this.expectOperator(":", 'Expected: condition ? "yes" : "no"');
+    const alternate = this.parseConditional();
+
+    return this.node<ConditionalExpression>(test, {
+      type: "Conditional",
+      test,
+      consequent,
+      alternate,
+    });
+  }
+
+  /**
+   * a OR b
+   */
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.matchKeyword("OR")) {
+      const right = this.parseAnd();
+      left = this.node<LogicalExpression>(left, {
+        type: "Logical",
+        operator: "OR",
+        left,
+        right,
+      });
+    }
+    return left;
+  }
+
+  /**
+   * a AND b
+   */
+  private parseAnd(): ExpressionNode {
+    let left = this.parseNot();
+    while (this.matchKeyword("AND")) {
+      const right = this.parseNot();
+      left = this.node<LogicalExpression>(left, {
+        type: "Logical",
+        operator: "AND",
+        left,
+        right,
+      });
+    }
+    return left;
+  }
+
+  /**
+   * NOT(a), NOT a
+   */
+  private parseNot(): ExpressionNode {
+    const token = this.current();
+    if (this.matchKeyword("NOT")) {
+      const argument = this.parseNot();
+      return this.at<UnaryExpression>(token, {
+        type: "Unary",
+        operator: "NOT",
+        argument,
+      });
+    }
+    return this.parseComparison();
+  }
+
+  /**
+   * a == b, a contains "x", a isEmpty
+   */
+  private parseComparison(): ExpressionNode {
+    const left = this.parseAdditive();
+    const token = this.current();
+
+    if (token.kind === "operator" && COMPARISON_OPS.includes(token.value)) {
+      this.advance();
+      const right = this.parseAdditive();
+      return this.node<ComparisonExpression>(left, {
+        type: "Comparison",
+        operator: token.value as ComparisonExpression["operator"],
+        left,
+        right,
+      });
+    }
+
+    if (token.kind === "identifier") {
+      const keyword = token.value.toLowerCase();
+
+      if (STRING_OPS[keyword]) {
+        this.advance();
+        const right = this.parseAdditive();
+        return this.node<StringOpExpression>(left, {
+          type: "StringOp",
+          operator: STRING_OPS[keyword],
+          left,
+          right,
+        });
+      }
+
+      if (TYPE_CHECKS[keyword]) {
+        this.advance();
+        return this.node<TypeCheckExpression>(left, {
+          type: "TypeCheck",
+          check: TYPE_CHECKS[keyword],
+          argument: left,
+        });
+      }
+    }
+
+    return left;
+  }
+
+  /**
+   * a + b, a - b
+   */
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative();
+    while (this.check("operator", "+") || this.check("operator", "-")) {
+      const operator = this.advance().value as "+" | "-";
+      const right = this.parseMultiplicative();
+      left = this.node<BinaryExpression>(left, {
+        type: "Binary",
+        operator,
+        left,
+        right,
+      });
+    }
+    return left;
+  }
+
+  /**
+   * a * b, a / b, a % b
+   */
+  private parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary();
+    while (
+      this.check("operator", "*") ||
+      this.check("operator", "/") ||
+      this.check("operator", "%")
+    ) {
+      const operator = this.advance().value as "*" | "/" | "%";
+      const right = this.parseUnary();
+      left = this.node<BinaryExpression>(left, {
+        type: "Binary",
+        operator,
+        left,
+        right,
+      });
+    }
+    return left;
+  }
+
+  /**
+   * -a (negative number literals are folded)
+   */
+  private parseUnary(): ExpressionNode {
+    const token = this.current();
+    if (!this.matchOperator("-")) return this.parsePrimary();
+
+    const argument = this.parseUnary();
+    if (argument.type === "Literal") {
+      const value = (argument as LiteralExpression).value;
+      if (typeof value === "number") {
+        return this.at<LiteralExpression>(token, {
+          type: "Literal",
+          value: -value,
+        });
+      }
+    }
+
+    return this.at<UnaryExpression>(token, {
+      type: "Unary",
+      operator: "-",
+      argument,
+    });
+  }
+
+  /**
+   * Literal, variable path, macro call or parenthesized group
+   */
+  private parsePrimary(): ExpressionNode {
+    const token = this.current();
+
+    switch (token.kind) {
+      case "number":
+        this.advance();
+        return this.at<LiteralExpression>(token, {
+          type: "Literal",
+          value: Number(token.value),
+        });
+
+      case "string":
+        this.advance();
+        return this.at<LiteralExpression>(token, {
+          type: "Literal",
+          value: token.value,
+        });
+
+      case "reference":
+        this.advance();
+        return this.path(token);
+
+      case "identifier":
+        this.advance();
+        if (token.value === "true" || token.value === "false") {
+          return this.at<LiteralExpression>(token, {
+            type: "Literal",
+            value: token.value === "true",
+          });
+        }
+        if (token.value === "null") {
+          return this.at<LiteralExpression>(token, {
+            type: "Literal",
+            value: null,
+          });
+        }
+        if (this.check("operator", "(")) {
+          return this.parseCall(token);
+        }
+        return this.path(token);
+
+      case "operator":
+        if (token.value === "(") {
+          this.advance();
+          const inner = this.parseConditional();
+          this.expectOperator(")", "Check that parentheses are balanced");
+          return inner;
+        }
+        throw this.error(`Unexpected '${token.value}' in expression`, token);
+
+      default:
+        throw this.error(
+          "Unexpected end of expression",
+          token,
+          "Complete the expression, e.g. {{IF count > 0}}"
+        );
+    }
+  }
+
+  /**
+   * Macro call: name(arg, other=value)
+   */
+  private parseCall(callee: ExpressionToken): CallExpression {
+    if (!/^\w+$/.test(callee.value)) {
+      throw this.error(
+        `Invalid macro name '${callee.value}'`,
+        callee,
+        "Macro names may only contain letters, digits and underscores"
+      );
+    }
+    this.expectOperator("(", "Expected: name(arguments)");
+
+    const args: ExpressionNode[] = [];
+    const namedArgs: NamedArgument[] = [];
+
+    if (!this.check("operator", ")")) {
+      do {
+        const token = this.current();
+        const named =
+          token.kind === "identifier" &&
+          this.tokens[this.pos + 1]?.kind === "operator" &&
+          this.tokens[this.pos + 1]?.value === "=";
+
+        if (named) {
+          this.advance();
+          this.advance();
+          namedArgs.push({ name: token.value, value: this.parseConditional() });
+        } else if (namedArgs.length > 0) {
+          throw this.error(
+            "Positional argument after named argument",
+            token,
+            "Put positional arguments first: card(customer, show_price=false)"
+          );
+        } else {
+          args.push(this.parseConditional());
+        }
+      } while (this.matchOperator(","));
+    }
+
+    this.expectOperator(")", "Check that parentheses are balanced");
+
+    return this.at<CallExpression>(callee, {
+      type: "Call",
+      callee: callee.value,
+      args,
+      namedArgs,
+    });
+  }
+
+  // ==================== Tokenizer ====================
+
+  /**
+   * Split source into expression tokens
+   */
+  private tokenize(): ExpressionToken[] {
+    const tokens: ExpressionToken[] = [];
+    const src = this.source;
+    let i = 0;
+
+    while (i < src.length) {
+      const char = src[i];
+
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+
+      // Variable reference: ${{path}}
+      if (src.startsWith("${{", i)) {
+        const end = src.indexOf("}}", i + 3);
+        if (end === -1) {
+          throw this.error("Unclosed ${{...}} reference", {
+            kind: "reference",
+            value: "",
+            offset: i,
+          });
+        }
+        tokens.push({
+          kind: "reference",
+          value: src.slice(i + 3, end).trim(),
+          offset: i,
+        });
+        i = end + 2;
+        continue;
+      }
+
+      // Quoted string: backslash escapes quotes and backslashes
+      if (char === '"' || char === "'") {
+        const start = i;
+        let value = "";
+        i++;
+        while (i < src.length && src[i] !== char) {
+          if (src[i] === "\\" && /["'\\]/.test(src[i + 1] ?? "")) {
+            i++;
+          }
+          value += src[i];
+          i++;
+        }
+        if (i >= src.length) {
+          throw this.error(
+            "Unterminated string in expression",
+            { kind: "string", value, offset: start },
+            `Add the closing ${char}`
+          );
+        }
+        i++;
+        tokens.push({ kind: "string", value, offset: start });
+        continue;
+      }
+
+      // Number literal
+      const number = src
+        .slice(i)
+        .match(/^\d+(\.\d+)?(?![^\s()=!<>+\-*/%?:,|])/);
+      if (number) {
+        tokens.push({ kind: "number", value: number[0], offset: i });
+        i += number[0].length;
+        continue;
+      }
+
+      // Operator
+      const operator = OPERATORS.find((op) => src.startsWith(op, i));
+      if (operator) {
+        tokens.push({ kind: "operator", value: operator, offset: i });
+        i += operator.length;
+        continue;
+      }
+
+      // Identifier / path: a hyphen between name characters stays part of the
+      // name (first-name); path() attaches a subtraction to fall back on
+      // when that name is undefined but its operands are (a-b, x-1)
+      const start = i;
+      while (i < src.length) {
+        const c = src[i];
+        if (!DELIMITERS.has(c)) {
+          i++;
+        } else if (
+          c === "-" &&
+          i > start &&
+          i + 1 < src.length &&
+          !DELIMITERS.has(src[i + 1])
+        ) {
+          i++;
+        } else {
+          break;
+        }
+      }
+
+      if (i === start) {
+        throw this.error(`Unexpected character '${char}' in expression`, {
+          kind: "operator",
+          value: char,
+          offset: i,
+        });
+      }
+
+      tokens.push({
+        kind: "identifier",
+        value: src.slice(start, i),
+        offset: start,
+      });
+    }
+
+    tokens.push({ kind: "eof", value: "", offset: src.length });
+    return tokens;
+  }
+
+  // ==================== Helpers ====================
+
+  /**
+   * Build path node from identifier or ${{reference}}
+   */
+  private path(token: ExpressionToken): PathExpression {
+    if (!token.value) {
+      throw this.error("Empty variable reference", token);
+    }
+    const path = token.value.split(".").map((p) => p.trim());
+    return this.at<PathExpression>(token, {
+      type: "Path",
+      path,
+      ...(path[0].includes("-") && { difference: this.difference(token) }),
+    });
+  }
+
+  /**
+   * Read a hyphenated name as subtraction (a-b → a - b, x-1 → x - 1), the
+   * fallback for when it is not a variable
+   */
+  private difference(token: ExpressionToken): BinaryExpression {
+    let offset = token.offset;
+    const operands = token.value.split("-").map((part) => {
+      const operand = { ...token, value: part, offset };
+      offset += part.length + 1;
+      return /^\d+(\.\d+)?$/.test(part)
+        ? this.at<LiteralExpression>(operand, {
+            type: "Literal",
+            value: Number(part),
+          })
+        : this.path(operand);
+    });
+    return operands.slice(1).reduce<ExpressionNode>(
+      (left, right) =>
+        this.node<BinaryExpression>(left, {
+          type: "Binary",
+          operator: "-",
+          left,
+          right,
+        }),
+      operands[0]
+    ) as BinaryExpression;
+  }
+
+  /**
+   * Attach position of a token to a new node
+   */
+  private at<T extends ExpressionNode>(
+    token: ExpressionToken,
+    fields: Omit<T, "line" | "column">
+  ): T {
+    return { ...fields, ...this.position(token.offset) } as T;
+  }
+
+  /**
+   * Attach position of an existing (leftmost) node to a new node
+   */
+  private node<T extends ExpressionNode>(
+    from: ExpressionNode,
+    fields: Omit<T, "line" | "column">
+  ): T {
+    return { ...fields, line: from.line, column: from.column } as T;
+  }
+
+  /**
+   * Convert source offset to template line/column
+   */
+  private position(offset: number): { line: number; column: number } {
+    const before = this.source.slice(0, offset);
+    const lines = before.split("\n");
+
+    if (lines.length === 1) {
+      return { line: this.line, column: this.column + offset };
+    }
+
+    return {
+      line: this.line + lines.length - 1,
+      column: lines[lines.length - 1].length + 1,
+    };
+  }
+
+  private error(
+    message: string,
+    token: ExpressionToken,
+    suggestion = "Check expression syntax"
+  ): SyntaxError {
+    const { line, column } = this.position(token.offset);
+    return new SyntaxError(message, line, column, suggestion);
+  }
+
+  private current(): ExpressionToken {
+    return this.tokens[this.pos];
+  }
+
+  private check(kind: ExpressionTokenKind, value?: string): boolean {
+    const token = this.current();
+    return (
+      token.kind === kind && (value === undefined || token.value === value)
+    );
+  }
+
+  private advance(): ExpressionToken {
+    const token = this.current();
+    if (token.kind !== "eof") this.pos++;
+    return token;
+  }
+
+  /**
+   * Consume uppercase keyword (AND, OR, NOT)
+   */
+  private matchKeyword(keyword: string): boolean {
+    if (!this.check("identifier", keyword)) return false;
+    this.advance();
+    return true;
+  }
+
+  private matchOperator(operator: string): boolean {
+    if (!this.check("operator", operator)) return false;
+    this.advance();
+    return true;
+  }
+
+  private expectOperator(operator: string, suggestion: string): void {
+    if (this.matchOperator(operator)) return;
+
+    const token = this.current();
+    const found =
+      token.kind === "eof" ? "end of expression" : `'${token.value}'`;
+    throw this.error(
+      `Expected '${operator}', found ${found}`,
+      token,
+      this.keywordHint() ?? suggestion
+    );
+  }
+
+  /**
+   * Suggestion for a logical operator written in lowercase (a and b, not a)
+   * at or just before the unexpected token
+   */
+  private keywordHint(): string | undefined {
+    const lowercase = [this.current(), this.tokens[this.pos - 1]].find(
+      (token) =>
+        token?.kind === "identifier" &&
+        ["and", "or", "not"].includes(token.value)
+    );
+    return lowercase
+      ? `Logical operators are uppercase: use ${lowercase.value.toUpperCase()}`
+      : undefined;
+  }
+}
+
+/**
+ * Parse expression text into an expression AST
+ *
+ * @param source - Expression text, e.g. 'status == "active" AND count > 0'
+ * @param line - Template line where the expression starts
+ * @param column - Template column where the expression starts
+ */
+export function parseExpression(
+  source: string,
+  line = 1,
+  column = 1
+): ExpressionNode {
+  return new ExpressionParser(source, line, column).parse();
+}
@@ -1,11 +1,27 @@
-import { VariableMap, TemplateValue } from "./types";
-import { TypeError } from "./errors";
+import {
+  VariableMap,
+  TemplateValue,
+  ExpressionNode,
+  LiteralExpression,
+  PathExpression,
+  UnaryExpression,
+  BinaryExpression,
+  LogicalExpression,
+  ComparisonExpression,
+  StringOpExpression,
+  TypeCheckExpression,
+  ConditionalExpression,
+  CallExpression,
+} from "./types";
+import { TypeError, MissingVariableError } from "./errors";
+import { parseExpression } from "./expression-parser";
 import {
   tryCoerceToNumber,
   tryCoerceToArray,
   tryCoerceToObject,
   tryCoerceToBoolean,
   tryCoerceToString,
+  tryCoerceToDate,
 } from "./coercion";
 
 /**
@@ -52,6 +68,18 @@ export function isTruthy(value: any): boolean {
   return Boolean(value);
 }
 
+/**
+ * Evaluation options
+ */
+export interface EvaluateOptions {
+  /**
+   * Throw MissingVariableError for unknown variables in value positions
+   * (math operands, ternary branches). Conditions never throw for missing
+   * variables: they evaluate to null.
+   */
+  strict?: boolean;
+}
+
 /**
  * Evaluate conditional expression
  *
@@ -62,179 +90,175 @@ export function isTruthy(value: any): boolean {
  * - Type checks: isEmpty, isNotEmpty, isArray, isNumber, isObject, isBoolean
  * - Logical: AND, OR, NOT()
  * - Parentheses for grouping
+ *
+ * Accepts expression text or a pre-parsed expression AST.
  */
 export function evaluateCondition(
-  condition: string,
+  condition: string | ExpressionNode,
   variables: VariableMap
 ): boolean {
-  const trimmed = condition.trim();
+  return isTruthy(evaluateValue(condition, variables));
+}
+
+/**
+ * Evaluate expression to its value (not just truthiness)
+ *
+ * Examples:
+ * - "price * qty" → 30
+ * - 'vip ? "Gold" : "Standard"' → "Gold"
+ * - "user.name" → "Alice"
+ */
+export function evaluateValue(
+  expression: string | ExpressionNode,
+  variables: VariableMap,
+  options: EvaluateOptions = {}
+): TemplateValue {
+  const node =
+    typeof expression === "string" ? parseExpression(expression) : expression;
+  return evaluateNode(node, variables, options.strict ?? false);
+}
 
-  // Handle NOT() wrapper - verify the closing paren matches NOT(
-  if (trimmed.startsWith("NOT(") && trimmed.endsWith(")")) {
-    const inner = trimmed.slice(4, -1);
-    if (isBalancedParens(inner)) {
-      return !evaluateCondition(inner, variables);
+/**
+ * Walk expression AST
+ *
+ * `strict` only applies to value positions; operands of conditions are
+ * always evaluated leniently.
+ */
+function evaluateNode(
+  node: ExpressionNode,
+  variables: VariableMap,
+  strict: boolean
+): TemplateValue {
+  switch (node.type) {
+    case "Literal":
+      return (node as LiteralExpression).value;
+
+    case "Path":
+      return resolvePath(node as PathExpression, variables, strict);
+
+    case "Unary": {
+      const unary = node as UnaryExpression;
+      if (unary.operator === "NOT") {
+        return !isTruthy(evaluateNode(unary.argument, variables, false));
+      }
+      return -toNumber(unary.argument, variables, strict);
     }
-  }
 
-  // Handle parentheses for grouping - only if they're matching outer parens
-  if (trimmed.startsWith("(") && trimmed.endsWith(")")) {
-    const inner = trimmed.slice(1, -1);
-    // Check if the inner content is balanced - if so, these are wrapping parens
-    if (isBalancedParens(inner)) {
-      return evaluateCondition(inner, variables);
+    case "Binary":
+      return evaluateBinary(node as BinaryExpression, variables, strict);
+
+    case "Logical": {
+      const logical = node as LogicalExpression;
+      const left = isTruthy(evaluateNode(logical.left, variables, false));
+      if (logical.operator === "AND" ? !left : left) return left;
+      return isTruthy(evaluateNode(logical.right, variables, false));
     }
-  }
 
-  // Handle logical operators (AND, OR)
-  const logicalResult = tryEvaluateLogical(trimmed, variables);
-  if (logicalResult !== null) return logicalResult;
+    case "Comparison":
+      return evaluateComparison(node as ComparisonExpression, variables);
 
-  // Handle comparison operators
-  const comparisonResult = tryEvaluateComparison(trimmed, variables);
-  if (comparisonResult !== null) return comparisonResult;
+    case "StringOp":
+      return evaluateStringOp(node as StringOpExpression, variables);
 
-  // Handle string operators
-  const stringResult = tryEvaluateStringOp(trimmed, variables);
-  if (stringResult !== null) return stringResult;
+    case "TypeCheck":
+      return evaluateTypeCheck(node as TypeCheckExpression, variables);
 
-  // Handle type checks
-  const typeResult = tryEvaluateTypeCheck(trimmed, variables);
-  if (typeResult !== null) return typeResult;
+    case "Conditional": {
+      const conditional = node as ConditionalExpression;
+      const branch = isTruthy(evaluateNode(conditional.test, variables, false))
+        ? conditional.consequent
+        : conditional.alternate;
+      return evaluateNode(branch, variables, strict);
+    }
 
-  // Simple truthiness check
-  const value = resolveValue(trimmed, variables);
-  return isTruthy(value);
-}
+    case "Call": {
+      const { callee } = node as CallExpression;
+      throw new TypeError(
+        `Macro call ${callee}(...) cannot be part of a larger expression`,
+        node.line,
+        node.column,
+        `Call the macro on its own: {{CALL ${callee}(...)}}`
+      );
+    }
 
-/**
- * Check if parentheses in a string are balanced
- */
-function isBalancedParens(str: string): boolean {
-  let depth = 0;
-  for (const char of str) {
-    if (char === "(") depth++;
-    if (char === ")") depth--;
-    if (depth < 0) return false; // More closing than opening
+    default:
+      throw new TypeError(
+        `Unknown expression type: ${node.type}`,
+        node.line,
+        node.column
+      );
   }
-  return depth === 0;
 }
 
 /**
- * Try to evaluate logical operators (AND, OR)
- */
-/**
- * Try to evaluate logical operators (AND, OR)
+ * Evaluate comparison (==, !=, >, <, >=, <=)
+ *
+ * Equality compares string forms, so 5 == "5" and true == "true" hold.
+ * Two dates compare as points in time: due_date < now,
+ * "2026-11-01" == "2026-11-01T00:00:00Z".
  */
-function tryEvaluateLogical(
-  expr: string,
+function evaluateComparison(
+  node: ComparisonExpression,
   variables: VariableMap
-): boolean | null {
-  // Find AND/OR not inside parentheses
-  let depth = 0;
-  let orPos = -1;
-  let andPos = -1;
-
-  for (let i = 0; i < expr.length - 3; i++) {
-    // -3 to allow for " OR " or "AND"
-    if (expr[i] === "(") depth++;
-    if (expr[i] === ")") depth--;
-
-    if (depth === 0) {
-      // Check for OR (lower precedence, evaluate last)
-      if (expr.slice(i, i + 4) === " OR ") {
-        orPos = i;
-        // Don't break - keep looking for rightmost OR
-      }
-      // Check for AND (higher precedence)
-      if (expr.slice(i, i + 5) === " AND ") {
-        if (orPos === -1) {
-          // Only record AND if no OR found yet
-          andPos = i;
-        }
-      }
+): boolean {
+  const left = evaluateNode(node.left, variables, false);
+  const right = evaluateNode(node.right, variables, false);
+
+  const dates = comparableDates(left, right);
+  if (dates) {
+    const [leftTime, rightTime] = dates;
+    switch (node.operator) {
+      case "==":
+        return leftTime === rightTime;
+      case "!=":
+        return leftTime !== rightTime;
+      case ">":
+        return leftTime > rightTime;
+      case "<":
+        return leftTime < rightTime;
+      case ">=":
+        return leftTime >= rightTime;
+      case "<=":
+        return leftTime <= rightTime;
     }
   }
 
-  // OR has lower precedence - split on rightmost OR first
-  if (orPos !== -1) {
-    const left = expr.slice(0, orPos).trim();
-    const right = expr.slice(orPos + 4).trim();
-    return (
-      evaluateCondition(left, variables) || evaluateCondition(right, variables)
-    );
-  }
-
-  // Then split on rightmost AND
-  if (andPos !== -1) {
-    const left = expr.slice(0, andPos).trim();
-    const right = expr.slice(andPos + 5).trim();
-    return (
-      evaluateCondition(left, variables) && evaluateCondition(right, variables)
-    );
+  switch (node.operator) {
+    case "==":
+      return valuesEqual(left, right);
+    case "!=":
+      return !valuesEqual(left, right);
+    default:
+      return evaluateNumericComparison(left, right, node);
   }
-
-  return null;
 }
+
 /**
- * Try to evaluate comparison operators (==, !=, >, <, >=, <=)
+ * Timestamps of two date values, or null unless both are dates
+ *
+ * Numbers are never read as dates here, so numeric comparisons stay numeric.
  */
-function tryEvaluateComparison(
-  expr: string,
-  variables: VariableMap
-): boolean | null {
-  const operators = ["==", "!=", ">=", "<=", ">", "<"];
-
-  let inQuotes = false;
-  let quoteChar: string | null = null;
-
-  for (let i = 0; i < expr.length; i++) {
-    const char = expr[i];
+function comparableDates(
+  left: TemplateValue,
+  right: TemplateValue
+): [number, number] | null {
+  if (tryCoerceToNumber(left) !== null || tryCoerceToNumber(right) !== null) {
+    return null;
+  }
 
-    // -------- Operator detection (MUST come before quote tracking) --------
-    if (!inQuotes) {
-      for (const op of operators) {
-        if (expr.startsWith(op, i)) {
-          const leftExpr = expr.slice(0, i).trim();
-          const rightExpr = expr.slice(i + op.length).trim();
-
-          const left = resolveValue(leftExpr, variables);
-          const right = resolveValue(rightExpr, variables);
-
-          switch (op) {
-            case "==":
-              return String(left) == String(right);
-
-            case "!=":
-              return String(left) != String(right);
-
-            case ">":
-            case "<":
-            case ">=":
-            case "<=":
-              return evaluateNumericComparison(left, right, op);
-          }
-        }
-      }
-    }
+  const leftDate = tryCoerceToDate(left);
+  const rightDate = tryCoerceToDate(right);
+  if (leftDate === null || rightDate === null) return null;
 
-    // -------- Quote tracking --------
-    if (char === '"' || char === "'") {
-      const escaped = i > 0 && expr[i - 1] === "\\";
-
-      if (!escaped) {
-        if (!inQuotes) {
-          inQuotes = true;
-          quoteChar = char;
-        } else if (char === quoteChar) {
-          inQuotes = false;
-          quoteChar = null;
-        }
-      }
-    }
-  }
+  return [leftDate.getTime(), rightDate.getTime()];
+}
 
-  return null;
+/**
+ * Loose equality on string forms (missing and null are equal)
+ */
+function valuesEqual(left: TemplateValue, right: TemplateValue): boolean {
+  if (left == null || right == null) return left == null && right == null;
+  return tryCoerceToString(left) === tryCoerceToString(right);
 }
 
 /**
@@ -243,16 +267,17 @@ function tryEvaluateComparison(
 function evaluateNumericComparison(
   left: TemplateValue,
   right: TemplateValue,
-  op: string
+  node: ComparisonExpression
 ): boolean {
+  const op = node.operator;
   const leftNum = tryCoerceToNumber(left);
   const rightNum = tryCoerceToNumber(right);
 
   if (leftNum === null || rightNum === null) {
     throw new TypeError(
       `Cannot use operator '${op}' with non-numeric values: ${JSON.stringify(left)} ${op} ${JSON.stringify(right)}`,
-      1,
-      1,
+      node.line,
+      node.column,
       "Use isNumber check first: {{IF age isNumber AND age > 18}}"
     );
   }
@@ -272,298 +297,301 @@ function evaluateNumericComparison(
 }
 
 /**
- * Try to evaluate string operators (contains, startsWith, endsWith)
+ * Evaluate string operators (contains, startsWith, endsWith)
  */
-function tryEvaluateStringOp(
-  expr: string,
+function evaluateStringOp(
+  node: StringOpExpression,
   variables: VariableMap
-): boolean | null {
-  const operators = ["contains", "startsWith", "endsWith"];
-
-  for (const op of operators) {
-    const regex = new RegExp(`(.+?)\\s+${op}\\s+(.+)`, "i");
-    const match = expr.match(regex);
-
-    if (match) {
-      const leftValue = resolveValue(match[1].trim(), variables);
-      const rightValue = match[2].trim().replace(/^["']|["']$/g, "");
-
-      const leftStr = tryCoerceToString(leftValue);
-      if (leftStr === null) return false;
-
-      switch (op) {
-        case "contains":
-          return leftStr.includes(rightValue);
-        case "startsWith":
-          return leftStr.startsWith(rightValue);
-        case "endsWith":
-          return leftStr.endsWith(rightValue);
-      }
-    }
+): boolean {
+  const leftStr = tryCoerceToString(evaluateNode(node.left, variables, false));
+  if (leftStr === null) return false;
+
+  const rightStr =
+    tryCoerceToString(evaluateNode(node.right, variables, false)) ?? "";
+
+  switch (node.operator) {
+    case "contains":
+      return leftStr.includes(rightStr);
+    case "startsWith":
+      return leftStr.startsWith(rightStr);
+    case "endsWith":
+      return leftStr.endsWith(rightStr);
+    default:
+      return false;
   }
-
-  return null;
 }
 
 /**
- * Try to evaluate type check operators
+ * Evaluate type check operators
  */
-function tryEvaluateTypeCheck(
-  expr: string,
+function evaluateTypeCheck(
+  node: TypeCheckExpression,
   variables: VariableMap
-): boolean | null {
-  const checks = [
-    "isEmpty",
-    "isNotEmpty",
-    "isArray",
-    "isNumber",
-    "isObject",
-    "isBoolean",
-  ];
-
-  for (const check of checks) {
-    const regex = new RegExp(`(.+?)\\s+${check}$`, "i");
-    const match = expr.match(regex);
-
-    if (match) {
-      const value = resolveValue(match[1].trim(), variables);
-
-      switch (check) {
-        case "isEmpty": {
-          if (value == null) return true;
-          if (typeof value === "string") return value.trim() === "";
-          if (Array.isArray(value)) return value.length === 0;
-          if (typeof value === "object") return Object.keys(value).length === 0;
-          return false;
-        }
-        case "isNotEmpty": {
-          if (value == null) return false;
-          if (typeof value === "string") return value.trim() !== "";
-          if (Array.isArray(value)) return value.length > 0;
-          if (typeof value === "object") return Object.keys(value).length > 0;
-          return true;
-        }
-        case "isArray":
-          return tryCoerceToArray(value) !== null;
-        case "isNumber":
-          return tryCoerceToNumber(value) !== null;
-        case "isObject":
-          return tryCoerceToObject(value) !== null;
-        case "isBoolean":
-          return tryCoerceToBoolean(value) !== null;
-      }
+): boolean {
+  const value = evaluateNode(node.argument, variables, false);
+
+  switch (node.check) {
+    case "isEmpty": {
+      if (value == null) return true;
+      if (typeof value === "string") return value.trim() === "";
+      if (Array.isArray(value)) return value.length === 0;
+      if (typeof value === "object") return Object.keys(value).length === 0;
+      return false;
+    }
+    case "isNotEmpty": {
+      if (value == null) return false;
+      if (typeof value === "string") return value.trim() !== "";
+      if (Array.isArray(value)) return value.length > 0;
+      if (typeof value === "object") return Object.keys(value).length > 0;
+      return true;
     }
+    case "isArray":
+      return tryCoerceToArray(value) !== null;
+    case "isNumber":
+      return tryCoerceToNumber(value) !== null;
+    case "isObject":
+      return tryCoerceToObject(value) !== null;
+    case "isBoolean":
+      return tryCoerceToBoolean(value) !== null;
+    default:
+      return false;
   }
+}
 
-  return null;
+/**
+ * Evaluate math operator (+, -, *, /, %)
+ */
+function evaluateBinary(
+  node: BinaryExpression,
+  variables: VariableMap,
+  strict: boolean
+): number {
+  const left = toNumber(node.left, variables, strict);
+  const right = toNumber(node.right, variables, strict);
+
+  switch (node.operator) {
+    case "+":
+      return left + right;
+    case "-":
+      return left - right;
+    case "*":
+      return left * right;
+    case "/":
+      return left / right;
+    case "%":
+      return left % right;
+  }
 }
 
 /**
- * Resolve variable value (supports dot notation)
+ * Evaluate math operand, which must be numeric
  */
-function resolveValue(expr: string, variables: VariableMap): TemplateValue {
-  if (!expr) return null;
+function toNumber(
+  node: ExpressionNode,
+  variables: VariableMap,
+  strict: boolean
+): number {
+  const value = evaluateNode(node, variables, strict);
+  const num = tryCoerceToNumber(value);
 
-  // Normalize whitespace everywhere
-  expr = expr.trim();
+  if (num === null) {
+    throw new TypeError(
+      `Cannot use non-numeric value in math expression: ${describeExpression(node)} = ${JSON.stringify(value)}`,
+      node.line,
+      node.column,
+      "Ensure all variables in math expressions are numbers"
+    );
+  }
 
-  // Literal booleans
-  if (expr === "true") return true;
-  if (expr === "false") return false;
-  if (expr === "null") return null;
+  return num;
+}
 
-  // Numeric literal
-  if (/^-?\d+(\.\d+)?$/.test(expr)) return Number(expr);
+/**
+ * Short source-like description of an operand for error messages
+ */
+function describeExpression(node: ExpressionNode): string {
+  if (node.type === "Path") return (node as PathExpression).path.join(".");
+  if (node.type === "Literal") {
+    return JSON.stringify((node as LiteralExpression).value);
+  }
+  return "expression";
+}
+
+/**
+ * Check that every variable a subtraction reads is defined
+ */
+function operandsDefined(
+  node: ExpressionNode,
+  variables: VariableMap
+): boolean {
+  if (node.type === "Path") {
+    return variables.has((node as PathExpression).path[0]);
+  }
+  if (node.type === "Binary") {
+    const { left, right } = node as BinaryExpression;
+    return (
+      operandsDefined(left, variables) && operandsDefined(right, variables)
+    );
+  }
+  return true;
+}
 
-  // Robust string-literal detection
-  const first = expr[0];
-  const last = expr[expr.length - 1];
-  if ((first === `"` && last === `"`) || (first === `'` && last === `'`)) {
-    return expr.substring(1, expr.length - 1);
+/**
+ * Resolve variable path (supports dot notation and JSON strings)
+ */
+function resolvePath(
+  node: PathExpression,
+  variables: VariableMap,
+  strict: boolean
+): TemplateValue {
+  const [root, ...rest] = node.path;
+
+  if (
+    !variables.has(root) &&
+    node.difference &&
+    operandsDefined(node.difference, variables)
+  ) {
+    return evaluateNode(node.difference, variables, strict);
   }
 
-  // Variable path resolution
-  const path = expr.split(".");
-  let current: TemplateValue = variables.get(path[0]);
+  if (!variables.has(root)) {
+    if (strict) {
+      throw new MissingVariableError(
+        root,
+        node.line,
+        node.column,
+        Array.from(variables.keys())
+      );
+    }
+    return null;
+  }
+
+  let current: TemplateValue = variables.get(root);
 
-  for (let i = 1; i < path.length; i++) {
+  for (const key of rest) {
     if (current == null) return null;
 
     // Parse as JSON if the variable is a string
     if (typeof current === "string") {
-      try {
-        current = JSON.parse(current);
-      } catch {
-        return null;
-      }
+      current = current.trim().startsWith("[")
+        ? tryCoerceToArray(current)
+        : tryCoerceToObject(current);
+      if (current === null) return null;
     }
 
-    if (
-      typeof current === "object" &&
-      current !== null &&
-      !Array.isArray(current)
-    ) {
-      current = current[path[i]];
-    } else if (Array.isArray(current)) {
-      const index = Number(path[i]);
-      current = current[index];
+    if (Array.isArray(current)) {
+      current = current[Number(key)];
+    } else if (typeof current === "object") {
+      current = current[key];
     } else {
       return null;
     }
   }
 
-  return current;
+  return current ?? null;
 }
 
 /**
- * Evaluate expression (alias for evaluateCondition for API consistency)
+ * Compare two values for sorting: numerically when both are numeric,
+ * otherwise as strings. Missing values sort after everything else.
  */
-export function evaluateExpression(
-  expression: string,
-  variables: VariableMap
-): boolean {
-  return evaluateCondition(expression, variables);
-}
+export function compareValues(a: TemplateValue, b: TemplateValue): number {
+  if (a == null || b == null) {
+    if (a == null && b == null) return 0;
+    return a == null ? 1 : -1;
+  }
 
-/**
- * Evaluate math expression
- *
- * Supports: +, -, *, /, %, parentheses
- * Operator precedence: *, /, % > +, -
- */
-export function evaluateMathExpression(
-  expression: string,
-  variables: VariableMap
-): number {
-  const tokens = tokenizeMath(expression, variables);
-  return evaluateMathTokens(tokens);
+  const aNum = tryCoerceToNumber(a);
+  const bNum = tryCoerceToNumber(b);
+  if (aNum !== null && bNum !== null) return aNum - bNum;
+
+  return (tryCoerceToString(a) ?? "").localeCompare(tryCoerceToString(b) ?? "");
 }
 
 /**
- * Tokenize math expression
+ * Split ternary expression at its top-level operators
+ *
+ * "a ? b : c ? d : e" → { condition: "a", whenTrue: "b", whenFalse: "c ? d : e" }
+ *
+ * Ignores "?" and ":" inside quotes, parentheses and ${{...}} references, and
+ * never mistakes the default operator (??) for a ternary. Nested ternaries in
+ * the true branch are matched by counting "?" against ":".
+ * Returns null if the expression is not a ternary.
  */
-function tokenizeMath(
-  expr: string,
-  variables: VariableMap
-): (number | string)[] {
-  const tokens: (number | string)[] = [];
-  let i = 0;
+export function splitTernary(expr: string): {
+  condition: string;
+  whenTrue: string;
+  whenFalse: string;
+} | null {
+  let questionPos = -1;
+  let pending = 0;
+  let depth = 0;
+  let quoteChar: string | null = null;
 
-  while (i < expr.length) {
+  for (let i = 0; i < expr.length; i++) {
     const char = expr[i];
 
-    // Skip whitespace
-    if (/\s/.test(char)) {
-      i++;
-      continue;
-    }
-
-    // Operators and parentheses
-    if (["+", "-", "*", "/", "%", "(", ")"].includes(char)) {
-      tokens.push(char);
-      i++;
-      continue;
-    }
-
-    // Numbers
-    if (/\d/.test(char) || (char === "-" && /\d/.test(expr[i + 1]))) {
-      let num = "";
-      while (i < expr.length && /[\d.]/.test(expr[i])) {
-        num += expr[i];
-        i++;
+    if (quoteChar) {
+      if (char === "\\") {
+        i++; // Skip escaped character
+      } else if (char === quoteChar) {
+        quoteChar = null;
       }
-      tokens.push(Number(num));
       continue;
     }
 
-    // Variables
-    let varName = "";
-    while (i < expr.length && /[a-zA-Z0-9_@.]/.test(expr[i])) {
-      varName += expr[i];
-      i++;
-    }
-
-    if (varName) {
-      const value = resolveValue(varName, variables);
-      const num = tryCoerceToNumber(value);
-      if (num === null) {
-        throw new TypeError(
-          `Cannot use non-numeric value in math expression: ${varName} = ${JSON.stringify(value)}`,
-          1,
-          1,
-          "Ensure all variables in math expressions are numbers"
-        );
+    if (char === '"' || char === "'") {
+      quoteChar = char;
+    } else if (char === "(" || (char === "{" && expr[i + 1] === "{")) {
+      depth++;
+      if (char === "{") i++;
+    } else if (char === ")" || (char === "}" && expr[i + 1] === "}")) {
+      depth--;
+      if (char === "}") i++;
+    } else if (depth === 0 && char === "?") {
+      if (expr[i + 1] === "?") {
+        i++; // Default operator, not a ternary
+      } else if (questionPos === -1) {
+        questionPos = i;
+      } else {
+        pending++;
       }
-      tokens.push(num);
+    } else if (depth === 0 && char === ":" && questionPos !== -1) {
+      if (pending === 0) {
+        return {
+          condition: expr.slice(0, questionPos).trim(),
+          whenTrue: expr.slice(questionPos + 1, i).trim(),
+          whenFalse: expr.slice(i + 1).trim(),
+        };
+      }
+      pending--;
     }
   }
 
-  return tokens;
+  return null;
 }
 
 /**
- * Evaluate math tokens with proper operator precedence
+ * Evaluate expression (alias for evaluateCondition for API consistency)
  */
-function evaluateMathTokens(tokens: (number | string)[]): number {
-  // Handle parentheses first
-  while (tokens.includes("(")) {
-    const openIdx = tokens.lastIndexOf("(");
-    const closeIdx = tokens.indexOf(")", openIdx);
-
-    if (closeIdx === -1) {
-      throw new TypeError("Unmatched parentheses in math expression", 1, 1);
-    }
-
-    const subTokens = tokens.slice(openIdx + 1, closeIdx);
-    const result = evaluateMathTokens(subTokens);
-
-    tokens.splice(openIdx, closeIdx - openIdx + 1, result);
-  }
-
-  // Handle *, /, % (higher precedence)
-  for (let i = 1; i < tokens.length - 1; i++) {
-    const op = tokens[i];
-    if (op === "*" || op === "/" || op === "%") {
-      const left = tokens[i - 1] as number;
-      const right = tokens[i + 1] as number;
-
-      let result: number;
-      switch (op) {
-        case "*":
-          result = left * right;
-          break;
-        case "/":
-          result = left / right;
-          break;
-        case "%":
-          result = left % right;
-          break;
-        default:
-          result = 0;
-      }
-
-      tokens.splice(i - 1, 3, result);
-      i -= 1;
-    }
-  }
-
-  // Handle +, - (lower precedence)
-  for (let i = 1; i < tokens.length - 1; i++) {
-    const op = tokens[i];
-    if (op === "+" || op === "-") {
-      const left = tokens[i - 1] as number;
-      const right = tokens[i + 1] as number;
-
-      const result = op === "+" ? left + right : left - right;
-
-      tokens.splice(i - 1, 3, result);
-      i -= 1;
-    }
-  }
-
-  if (tokens.length !== 1 || typeof tokens[0] !== "number") {
-    throw new TypeError("Invalid math expression", 1, 1);
-  }
+export function evaluateExpression(
+  expression: string | ExpressionNode,
+  variables: VariableMap
+): boolean {
+  return evaluateCondition(expression, variables);
+}
 
-  return tokens[0];
+/**
+ * Evaluate math expression
+ *
+ * Supports: +, -, *, /, %, parentheses
+ * Operator precedence: *, /, % > +, -
+ */
+export function evaluateMathExpression(
+  expression: string | ExpressionNode,
+  variables: VariableMap
+): number {
+  const node =
+    typeof expression === "string" ? parseExpression(expression) : expression;
+  return toNumber(node, variables, false);
 }
@@ -1,121 +1,1276 @@
-import { FilterCall } from "./types";
+import { FilterCall, TemplateValue } from "./types";
+import { TypeError } from "./errors";
+import {
+  isDateOnly,
+  tryCoerceToArray,
+  tryCoerceToBoolean,
+  tryCoerceToDate,
+  tryCoerceToNumber,
+  tryCoerceToObject,
+  tryCoerceToString,
+} from "./coercion";
+import { compareValues, isTruthy } from "./expressions";
+
+/**
+ * Segment of a filter chain and its offset in the source text
+ */
+export interface ChainSegment {
+  text: string;
+  offset: number;
+}
+
+/**
+ * Split text on a separator, ignoring separators inside quoted strings
+ *
+ * Backslash escapes quotes inside a quoted string, so
+ * 'text | replace:find="a|b"' splits into two segments.
+ */
+export function splitOutsideQuotes(
+  text: string,
+  separator: string
+): ChainSegment[] {
+  const segments: ChainSegment[] = [];
+  let start = 0;
+  let quote = "";
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quote) {
+      if (char === "\\") {
+        i++;
+      } else if (char === quote) {
+        quote = "";
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+    } else if (text.startsWith(separator, i)) {
+      segments.push({ text: text.slice(start, i), offset: start });
+      start = i + separator.length;
+      i = start - 1;
+    }
+  }
+
+  segments.push({ text: text.slice(start), offset: start });
+  return segments;
+}
 
 /**
  * Parse filter string into FilterCall object
  *
  * Formats:
- * - Simple: "trim" â†’ { name: "trim", params: {} }
- * - Shorthand: "head=100" â†’ { name: "head", params: { value: "100" } }
- * - Named params: 'replace:find="old",with="new"' â†’ { name: "replace", params: { find: "old", with: "new" } }
+ * - Simple: "trim" → { name: "trim", params: {} }
+ * - Shorthand: "head=100" → { name: "head", params: { value: "100" } }
+ * - Named params: 'replace:find="old",with="new"' → { name: "replace", params: { find: "old", with: "new" } }
+ *
+ * Quoted values may contain any character; \" and \' escape quotes.
  */
 export function parseFilter(filterString: string): FilterCall {
   const trimmed = filterString.trim();
+  const match = trimmed.match(/^(\w+)\s*(?:([=:])([\s\S]*))?$/);
 
-  // Simple filter (no params)
-  if (!trimmed.includes("=") && !trimmed.includes(":")) {
+  // Simple filter (no params), or not a filter name at all
+  if (!match || !match[2]) {
     return { name: trimmed, params: {} };
   }
 
+  const [, name, separator, rest] = match;
+
   // Shorthand single param: head=100
-  if (trimmed.includes("=") && !trimmed.includes(":")) {
-    const [name, value] = trimmed.split("=").map((s) => s.trim());
-    return {
-      name,
-      params: { value: value.replace(/^["']|["']$/g, "") },
-    };
+  if (separator === "=") {
+    return { name, params: { value: parseParamValue(rest) } };
   }
 
   // Named params: replace:find="old",with="new"
-  const colonIdx = trimmed.indexOf(":");
-  const name = trimmed.slice(0, colonIdx).trim();
-  const paramsStr = trimmed.slice(colonIdx + 1);
-
   const params: Record<string, string> = {};
+  for (const segment of splitOutsideQuotes(rest, ",")) {
+    if (segment.text.trim()) {
+      parseParam(segment.text.trim(), params);
+    }
+  }
+
+  return { name, params };
+}
+
+/**
+ * Parse single parameter: key="value" → { key: "value" }
+ */
+function parseParam(param: string, params: Record<string, string>): void {
+  const eqIdx = param.indexOf("=");
+  if (eqIdx === -1) {
+    throw new Error(`Invalid filter parameter: ${param} (expected name=value)`);
+  }
 
-  // Parse comma-separated params (handle quoted commas)
-  let current = "";
-  let inQuotes = false;
-  let quoteChar = "";
+  const key = param.slice(0, eqIdx).trim();
+  params[key] = parseParamValue(param.slice(eqIdx + 1));
+}
 
-  for (let i = 0; i < paramsStr.length; i++) {
-    const char = paramsStr[i];
+/**
+ * Parameter value: quotes removed and escaped quotes unescaped
+ */
+function parseParamValue(raw: string): string {
+  const value = raw.trim();
+  const quote = value[0];
+  if (quote !== '"' && quote !== "'") return value;
 
-    if ((char === '"' || char === "'") && paramsStr[i - 1] !== "\\") {
-      if (!inQuotes) {
-        inQuotes = true;
-        quoteChar = char;
-      } else if (char === quoteChar) {
-        inQuotes = false;
+  let result = "";
+  for (let i = 1; i < value.length; i++) {
+    if (value[i] === "\\" && /["'\\]/.test(value[i + 1] ?? "")) {
+      result += value[++i];
+    } else if (value[i] === quote) {
+      if (i !== value.length - 1) {
+        throw new Error(
+          `Unexpected text after quoted filter parameter: ${value.slice(i + 1)}`
+        );
       }
-    }
-
-    if (char === "," && !inQuotes) {
-      parseParam(current.trim(), params);
-      current = "";
+      return result;
     } else {
-      current += char;
+      result += value[i];
     }
   }
 
-  if (current.trim()) {
-    parseParam(current.trim(), params);
+  throw new Error(`Unterminated string in filter parameter: ${value}`);
+}
+
+/**
+ * Value type a filter works on; input values are coerced to it first
+ */
+export type FilterInputType =
+  | "string"
+  | "number"
+  | "date"
+  | "array"
+  | "object"
+  | "any";
+
+/**
+ * Coerced input value per filter input type
+ */
+export interface FilterInputValues {
+  string: string;
+  number: number;
+  date: FilterDate;
+  array: TemplateValue[];
+  object: Record<string, TemplateValue>;
+  any: TemplateValue;
+}
+
+/**
+ * Date filter input: plain calendar dates (2026-11-01) are kept apart from
+ * instants so time zones never shift them to another day
+ */
+export interface FilterDate {
+  date: Date;
+  dateOnly: boolean;
+}
+
+/**
+ * Filter parameter type (raw parameter text is converted before apply)
+ */
+export type FilterParamType = "string" | "number" | "boolean";
+
+/**
+ * Filter parameter schema
+ */
+export interface FilterParamDefinition {
+  name: string;
+  type: FilterParamType;
+  required?: boolean;
+  default?: string | number | boolean;
+  integer?: boolean; // Numbers only: reject fractions
+  min?: number; // Numbers only: smallest accepted value
+  max?: number; // Numbers only: largest accepted value
+}
+
+/**
+ * Converted filter parameters, by name
+ */
+export type FilterParams = Record<
+  string,
+  string | number | boolean | undefined
+>;
+
+/**
+ * Registered filter
+ *
+ * The shorthand form (head=100) sets the first parameter.
+ */
+export interface FilterDefinition<I extends FilterInputType = FilterInputType> {
+  name: string;
+  input: I;
+  params: FilterParamDefinition[];
+  example: string; // Shown when a required parameter is missing
+  check?: (params: FilterParams) => void; // Extra validation, throws Error
+  apply: (
+    value: FilterInputValues[I],
+    params: FilterParams,
+    context: FilterContext
+  ) => TemplateValue;
+}
+
+/**
+ * Render context passed to filters: the position used to report type errors,
+ * the template's default locale and time zone, and the current time
+ */
+export interface FilterContext {
+  line: number;
+  column: number;
+  locale?: string;
+  timeZone?: string;
+  now?: Date;
+}
+
+/**
+ * Locale used by formatting filters when neither the filter nor the render
+ * options name one
+ */
+export const DEFAULT_LOCALE = "en-US";
+
+const registry: Map<string, FilterDefinition> = new Map();
+
+/**
+ * Add filter to the registry (replaces a filter with the same name)
+ */
+export function registerFilter<I extends FilterInputType>(
+  definition: FilterDefinition<I>
+): void {
+  registry.set(definition.name, definition as unknown as FilterDefinition);
+}
+
+/**
+ * Look up a registered filter
+ */
+export function getFilter(name: string): FilterDefinition | undefined {
+  return registry.get(name);
+}
+
+/**
+ * Names of all registered filters, sorted
+ */
+export function listFilters(): string[] {
+  return Array.from(registry.keys()).sort();
+}
+
+/**
+ * Check that a filter exists and its parameters match the schema
+ *
+ * The parser calls this so filter mistakes are reported at compile time.
+ */
+export function validateFilter(filter: FilterCall): void {
+  const definition = registry.get(filter.name);
+  if (!definition) {
+    throw new Error(`Unknown filter: ${filter.name}`);
+  }
+  resolveFilterParams(definition, filter.params);
+}
+
+/**
+ * Apply single filter to a value
+ */
+export function applyFilter(
+  value: TemplateValue,
+  filter: FilterCall,
+  context: FilterContext = { line: 1, column: 1 }
+): TemplateValue {
+  const definition = registry.get(filter.name);
+  if (!definition) {
+    throw new Error(`Unknown filter: ${filter.name}`);
+  }
+
+  const params = resolveFilterParams(definition, filter.params);
+
+  // Missing dates and numbers stay empty instead of failing in lenient
+  // templates
+  if (
+    (definition.input === "date" || definition.input === "number") &&
+    (value == null || value === "")
+  ) {
+    return null;
   }
 
-  return { name, params };
+  const input = coerceFilterInput(definition, value, context);
+  return definition.apply(input, params, context);
 }
 
 /**
- * Parse single parameter: key="value" â†’ { key: "value" }
+ * Apply chain of filters to a value (left to right)
+ *
+ * Each filter receives the previous filter's typed result; values are only
+ * turned into text for final output.
  */
-function parseParam(param: string, params: Record<string, string>): void {
-  const eqIdx = param.indexOf("=");
-  if (eqIdx === -1) return;
+export function applyFilters(
+  value: TemplateValue,
+  filters: FilterCall[],
+  context?: FilterContext
+): TemplateValue {
+  let result = value;
 
-  const key = param.slice(0, eqIdx).trim();
-  let value = param.slice(eqIdx + 1).trim();
+  for (const filter of filters) {
+    result = applyFilter(result, filter, context);
+  }
+
+  return result;
+}
+
+/**
+ * Validate raw filter parameters against the schema and convert their types
+ */
+function resolveFilterParams(
+  definition: FilterDefinition,
+  raw: Record<string, string>
+): FilterParams {
+  const named = { ...raw };
+
+  // Shorthand: head=100 → first parameter
+  if (
+    named.value !== undefined &&
+    definition.params.length > 0 &&
+    !definition.params.some((p) => p.name === "value")
+  ) {
+    named[definition.params[0].name] = named.value;
+    delete named.value;
+  }
 
-  // Remove quotes
-  value = value.replace(/^["']|["']$/g, "");
+  for (const key of Object.keys(named)) {
+    if (!definition.params.some((p) => p.name === key)) {
+      throw new Error(
+        `Unknown parameter "${key}" for ${definition.name} filter (e.g., ${definition.example})`
+      );
+    }
+  }
+
+  const params: FilterParams = {};
+  for (const param of definition.params) {
+    const text = named[param.name];
+
+    // Empty strings are valid values for optional string params (join="")
+    const missing =
+      text === undefined ||
+      (text === "" && (param.required || param.type !== "string"));
+
+    if (missing) {
+      if (param.required) {
+        throw new Error(
+          `${definition.name} filter requires parameter (e.g., ${definition.example})`
+        );
+      }
+      params[param.name] = param.default;
+      continue;
+    }
 
-  // Unescape quotes
-  value = value.replace(/\\["']/g, (match) => match[1]);
+    params[param.name] = convertFilterParam(definition, param, text);
+  }
 
-  params[key] = value;
+  definition.check?.(params);
+  return params;
 }
 
 /**
- * Apply single filter to text
+ * Convert raw parameter text to the parameter's declared type
  */
-export function applyFilter(text: string, filter: FilterCall): string {
-  switch (filter.name) {
-    case "head":
-      return applyHeadFilter(text, filter.params);
-    case "tail":
-      return applyTailFilter(text, filter.params);
-    case "trim":
-      return text.trim();
-    case "escape_md":
-      return applyEscapeMdFilter(text);
+function convertFilterParam(
+  definition: FilterDefinition,
+  param: FilterParamDefinition,
+  text: string
+): string | number | boolean {
+  const label = paramLabel(definition, param.name);
+
+  switch (param.type) {
+    case "number": {
+      const number = Number(text);
+      if (isNaN(number)) {
+        throw new Error(`Invalid ${label}: ${text} (must be a number)`);
+      }
+      if (param.integer && !Number.isInteger(number)) {
+        throw new Error(`Invalid ${label}: ${text} (must be a whole number)`);
+      }
+      if (param.min !== undefined && number < param.min) {
+        throw new Error(
+          `Invalid ${label}: ${text} (must be at least ${param.min})`
+        );
+      }
+      if (param.max !== undefined && number > param.max) {
+        throw new Error(
+          `Invalid ${label}: ${text} (must be at most ${param.max})`
+        );
+      }
+      return number;
+    }
+    case "boolean": {
+      const bool = tryCoerceToBoolean(text);
+      if (bool === null) {
+        throw new Error(`Invalid ${label}: ${text} (must be true or false)`);
+      }
+      return bool;
+    }
     default:
-      throw new Error(`Unknown filter: ${filter.name}`);
+      return text;
   }
 }
 
 /**
- * Apply head filter: take first N characters
+ * Coerce filter input to a list; missing and empty values are empty lists
  */
-function applyHeadFilter(text: string, params: Record<string, string>): string {
-  if (!params.value) {
-    throw new Error("head filter requires parameter (e.g., head=100)");
+function coerceToList(
+  filterName: string,
+  value: TemplateValue,
+  context: FilterContext
+): TemplateValue[] {
+  if (value == null || value === "") return [];
+  const array = tryCoerceToArray(value);
+  if (array === null) {
+    throw new TypeError(
+      `${filterName} filter expects a list, got ${JSON.stringify(value)}`,
+      context.line,
+      context.column,
+      "Pass an array, a JSON array string or a comma-separated list"
+    );
   }
+  return array;
+}
 
-  const length = Number(params.value);
-  if (isNaN(length)) {
-    throw new Error(
-      `Invalid head parameter: ${params.value} (must be a number)`
-    );
+/**
+ * Parameter name as used in error messages: "head parameter" for single
+ * parameter filters, "replace parameter find" otherwise
+ */
+function paramLabel(definition: FilterDefinition, name: string): string {
+  return definition.params.length > 1
+    ? `${definition.name} parameter ${name}`
+    : `${definition.name} parameter`;
+}
+
+/**
+ * Coerce value to the filter's input type
+ */
+function coerceFilterInput(
+  definition: FilterDefinition,
+  value: TemplateValue,
+  context: FilterContext
+): FilterInputValues[FilterInputType] {
+  switch (definition.input) {
+    case "string":
+      return tryCoerceToString(value) ?? "";
+
+    case "number": {
+      const number = tryCoerceToNumber(value);
+      if (number === null) {
+        throw new TypeError(
+          `${definition.name} filter expects a number, got ${JSON.stringify(value ?? null)}`,
+          context.line,
+          context.column,
+          "Check the value before the filter, e.g. {{IF value isNumber}}"
+        );
+      }
+      return number;
+    }
+
+    case "date": {
+      const date = tryCoerceToDate(value);
+      if (date === null) {
+        throw new TypeError(
+          `${definition.name} filter expects a date, got ${JSON.stringify(value)}`,
+          context.line,
+          context.column,
+          "Use an ISO 8601 date (2026-11-01, 2026-11-01T09:30:00Z) or a Unix timestamp"
+        );
+      }
+      return { date, dateOnly: isDateOnly(value) };
+    }
+
+    case "array":
+      return coerceToList(definition.name, value, context);
+
+    case "object": {
+      if (value == null || value === "") return {};
+      const object = tryCoerceToObject(value);
+      if (object === null) {
+        throw new TypeError(
+          `${definition.name} filter expects an object, got ${JSON.stringify(value)}`,
+          context.line,
+          context.column,
+          "Pass an object or a JSON object string"
+        );
+      }
+      return object;
+    }
+
+    default:
+      return value;
   }
+}
+
+// ==================== Built-in filters ====================
+
+registerFilter({
+  name: "head",
+  input: "string",
+  params: [{ name: "length", type: "number", required: true }],
+  example: "head=100",
+  apply: (text, params) => applyHeadFilter(text, params.length as number),
+});
+
+registerFilter({
+  name: "tail",
+  input: "string",
+  params: [{ name: "length", type: "number", required: true }],
+  example: "tail=50",
+  apply: (text, params) => applyTailFilter(text, params.length as number),
+});
+
+registerFilter({
+  name: "trim",
+  input: "string",
+  params: [],
+  example: "trim",
+  apply: (text) => text.trim(),
+});
+
+registerFilter({
+  name: "escape_md",
+  input: "string",
+  params: [],
+  example: "escape_md",
+  apply: (text) => applyEscapeMdFilter(text),
+});
+
+registerFilter({
+  name: "join",
+  input: "array",
+  params: [{ name: "separator", type: "string", default: ", " }],
+  example: 'join=", "',
+  apply: (items, params) =>
+    items
+      .map((item) => tryCoerceToString(item) ?? "")
+      .join(params.separator as string),
+});
+
+registerFilter({
+  name: "length",
+  input: "any",
+  params: [],
+  example: "length",
+  apply: (value) => {
+    if (value == null) return 0;
+    if (Array.isArray(value)) return value.length;
+    if (typeof value === "object") return Object.keys(value).length;
+    return String(value).length;
+  },
+});
+
+// ==================== Collection filters ====================
+
+registerFilter({
+  name: "first",
+  input: "array",
+  params: [],
+  example: "first",
+  apply: (items) => items[0] ?? null,
+});
+
+registerFilter({
+  name: "last",
+  input: "array",
+  params: [],
+  example: "last",
+  apply: (items) => items[items.length - 1] ?? null,
+});
+
+registerFilter({
+  name: "sort",
+  input: "array",
+  params: [],
+  example: "sort",
+  apply: (items) => [...items].sort(compareValues),
+});
+
+registerFilter({
+  name: "sort_by",
+  input: "array",
+  params: [{ name: "field", type: "string", required: true }],
+  example: "sort_by=created_at",
+  apply: (items, params) =>
+    [...items].sort((a, b) =>
+      compareValues(
+        getField(a, params.field as string),
+        getField(b, params.field as string)
+      )
+    ),
+});
+
+registerFilter({
+  name: "unique",
+  input: "array",
+  params: [],
+  example: "unique",
+  apply: (items) => {
+    const seen = new Set<string>();
+    return items.filter((item) => {
+      const key = JSON.stringify(item ?? null);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  },
+});
+
+registerFilter({
+  name: "reverse",
+  input: "array",
+  params: [],
+  example: "reverse",
+  apply: (items) => [...items].reverse(),
+});
+
+registerFilter({
+  name: "slice",
+  input: "array",
+  params: [
+    { name: "start", type: "number", required: true, integer: true },
+    { name: "end", type: "number", integer: true },
+  ],
+  example: "slice:start=0,end=5",
+  apply: (items, params) =>
+    items.slice(params.start as number, params.end as number | undefined),
+});
+
+registerFilter({
+  name: "pluck",
+  input: "array",
+  params: [{ name: "field", type: "string", required: true }],
+  example: "pluck=name",
+  apply: (items, params) =>
+    items.map((item) => getField(item, params.field as string)),
+});
+
+registerFilter({
+  name: "where",
+  input: "array",
+  params: [
+    { name: "field", type: "string", required: true },
+    { name: "equals", type: "string" },
+  ],
+  example: 'where:field="status",equals="open"',
+  apply: (items, params) =>
+    items.filter((item) => {
+      const value = getField(item, params.field as string);
+      return params.equals === undefined
+        ? isTruthy(value)
+        : tryCoerceToString(value) === params.equals;
+    }),
+});
+
+registerFilter({
+  name: "group_by",
+  input: "array",
+  params: [{ name: "field", type: "string", required: true }],
+  example: "group_by=category",
+  apply: (items, params) => {
+    const groups: Record<string, TemplateValue[]> = {};
+    for (const item of items) {
+      const key =
+        tryCoerceToString(getField(item, params.field as string)) ?? "";
+      (groups[key] ??= []).push(item);
+    }
+    return groups;
+  },
+});
+
+registerFilter({
+  name: "keys",
+  input: "object",
+  params: [],
+  example: "keys",
+  apply: (object) => Object.keys(object),
+});
+
+registerFilter({
+  name: "values",
+  input: "object",
+  params: [],
+  example: "values",
+  apply: (object) => Object.values(object),
+});
+
+registerFilter({
+  name: "flatten",
+  input: "array",
+  params: [
+    { name: "depth", type: "number", default: 1, integer: true, min: 1 },
+  ],
+  example: "flatten=2",
+  apply: (items, params) =>
+    (items as unknown[]).flat(params.depth as number) as TemplateValue[],
+});
+
+/**
+ * Number text with thousands separators ("1,234", "-12,345.6"), which
+ * compact formats instead of splitting into a list
+ */
+const GROUPED_NUMBER = /^\s*-?\d{1,3}(,\d{3})+(\.\d+)?\s*$/;
+
+registerFilter({
+  name: "compact",
+  input: "any",
+  params: [
+    { name: "locale", type: "string" },
+    { name: "decimals", type: "number", integer: true, min: 0, max: 20 },
+  ],
+  example: "compact",
+  check: (params) => checkLocale("compact", params.locale),
+  apply: (value, params, context) => {
+    // Missing values stay empty; numbers (grouped text like "1,234"
+    // included): short notation (1.2K); anything else: list without blanks
+    if (value == null || value === "") return null;
+    const number = Array.isArray(value)
+      ? null
+      : typeof value === "string" && GROUPED_NUMBER.test(value)
+        ? Number(value.replace(/,/g, ""))
+        : tryCoerceToNumber(value);
+    if (number !== null) {
+      return formatNumber(number, params, context, { notation: "compact" });
+    }
+
+    const formatting = Object.keys(params).filter(
+      (name) => params[name] !== undefined
+    );
+    if (formatting.length > 0) {
+      throw new TypeError(
+        `compact parameter ${formatting[0]} only applies to numbers, got a list`,
+        context.line,
+        context.column,
+        "Remove the parameter to drop blank items, or pass a number to format it"
+      );
+    }
+
+    return coerceToList("compact", value, context).filter(
+      (item) =>
+        item != null && !(typeof item === "string" && item.trim() === "")
+    );
+  },
+});
+
+registerFilter({
+  name: "sum",
+  input: "array",
+  params: [],
+  example: "sum",
+  apply: (items, _params, context) =>
+    toNumbers("sum", items, context).reduce((total, n) => total + n, 0),
+});
+
+registerFilter({
+  name: "min",
+  input: "array",
+  params: [],
+  example: "min",
+  apply: (items, _params, context) => {
+    const numbers = toNumbers("min", items, context);
+    return numbers.length > 0 ? Math.min(...numbers) : null;
+  },
+});
+
+registerFilter({
+  name: "max",
+  input: "array",
+  params: [],
+  example: "max",
+  apply: (items, _params, context) => {
+    const numbers = toNumbers("max", items, context);
+    return numbers.length > 0 ? Math.max(...numbers) : null;
+  },
+});
+
+registerFilter({
+  name: "avg",
+  input: "array",
+  params: [],
+  example: "avg",
+  apply: (items, _params, context) => {
+    const numbers = toNumbers("avg", items, context);
+    return numbers.length > 0
+      ? numbers.reduce((total, n) => total + n, 0) / numbers.length
+      : null;
+  },
+});
+
+// ==================== Number filters ====================
+
+registerFilter({
+  name: "round",
+  input: "number",
+  params: [
+    {
+      name: "decimals",
+      type: "number",
+      default: 0,
+      integer: true,
+      min: -20,
+      max: 20,
+    },
+  ],
+  example: "round=2",
+  apply: (number, params) => roundNumber(number, params.decimals as number),
+});
+
+registerFilter({
+  name: "fixed",
+  input: "number",
+  params: [
+    {
+      name: "decimals",
+      type: "number",
+      default: 2,
+      integer: true,
+      min: 0,
+      max: 20,
+    },
+  ],
+  example: "fixed=2",
+  apply: (number, params) =>
+    roundNumber(number, params.decimals as number).toFixed(
+      params.decimals as number
+    ),
+});
+
+registerFilter({
+  name: "number",
+  input: "number",
+  params: [
+    { name: "decimals", type: "number", integer: true, min: 0, max: 20 },
+    { name: "locale", type: "string" },
+    { name: "grouping", type: "boolean", default: true },
+  ],
+  example: 'number:decimals=2,locale="de-DE"',
+  check: (params) => checkLocale("number", params.locale),
+  apply: (number, params, context) =>
+    formatNumber(number, params, context, {
+      useGrouping: params.grouping as boolean,
+    }),
+});
+
+registerFilter({
+  name: "currency",
+  input: "number",
+  params: [
+    { name: "code", type: "string", required: true },
+    { name: "locale", type: "string" },
+    { name: "decimals", type: "number", integer: true, min: 0, max: 20 },
+  ],
+  example: 'currency:code="EUR",locale="de-DE"',
+  check: (params) => {
+    checkLocale("currency", params.locale);
+    if (!/^[A-Za-z]{3}$/.test(params.code as string)) {
+      throw new Error(
+        `Invalid currency parameter code: ${params.code} (must be a 3-letter ISO 4217 code such as EUR)`
+      );
+    }
+  },
+  apply: (number, params, context) =>
+    formatNumber(number, params, context, {
+      style: "currency",
+      currency: (params.code as string).toUpperCase(),
+    }),
+});
+
+registerFilter({
+  name: "percent",
+  input: "number",
+  params: [
+    {
+      name: "decimals",
+      type: "number",
+      default: 0,
+      integer: true,
+      min: 0,
+      max: 20,
+    },
+    { name: "locale", type: "string" },
+  ],
+  example: "percent=1",
+  check: (params) => checkLocale("percent", params.locale),
+  apply: (number, params, context) =>
+    formatNumber(number, params, context, { style: "percent" }),
+});
+
+registerFilter({
+  name: "bytes",
+  input: "number",
+  params: [
+    {
+      name: "decimals",
+      type: "number",
+      default: 1,
+      integer: true,
+      min: 0,
+      max: 20,
+    },
+    { name: "locale", type: "string" },
+  ],
+  example: "bytes=1",
+  check: (params) => checkLocale("bytes", params.locale),
+  apply: (number, params, context) => formatBytes(number, params, context),
+});
+
+// ==================== Date filters ====================
+
+registerFilter({
+  name: "date",
+  input: "date",
+  params: [
+    { name: "format", type: "string", default: "yyyy-MM-dd" },
+    { name: "tz", type: "string" },
+    { name: "locale", type: "string" },
+  ],
+  example: 'date:format="yyyy-MM-dd",tz="Europe/Berlin"',
+  check: (params) => {
+    checkTimeZone("date", params.tz);
+    checkLocale("date", params.locale);
+  },
+  apply: (value, params, context) =>
+    formatDate(value, params.format as string, params, context),
+});
+
+registerFilter({
+  name: "relative",
+  input: "date",
+  params: [
+    { name: "locale", type: "string" },
+    { name: "tz", type: "string" },
+  ],
+  example: "relative",
+  check: (params) => {
+    checkLocale("relative", params.locale);
+    checkTimeZone("relative", params.tz);
+  },
+  apply: (value, params, context) => formatRelative(value, params, context),
+});
+
+registerFilter({
+  name: "weekday",
+  input: "date",
+  params: [
+    { name: "style", type: "string", default: "long" },
+    { name: "tz", type: "string" },
+    { name: "locale", type: "string" },
+  ],
+  example: 'weekday:style="short"',
+  check: (params) => {
+    if (!["long", "short", "narrow"].includes(params.style as string)) {
+      throw new Error(
+        `Invalid weekday parameter style: ${params.style} (must be long, short or narrow)`
+      );
+    }
+    checkTimeZone("weekday", params.tz);
+    checkLocale("weekday", params.locale);
+  },
+  apply: (value, params, context) =>
+    new Intl.DateTimeFormat(resolveLocale(params, context), {
+      weekday: params.style as "long" | "short" | "narrow",
+      timeZone: displayTimeZone(value, params, context),
+    }).format(value.date),
+});
+
+registerFilter({
+  name: "add_days",
+  input: "date",
+  params: [{ name: "days", type: "number", required: true, integer: true }],
+  example: "add_days=7",
+  apply: (value, params) => {
+    const date = new Date(value.date.getTime() + (params.days as number) * DAY);
+    return value.dateOnly
+      ? date.toISOString().slice(0, 10)
+      : date.toISOString();
+  },
+});
+
+// ==================== String filters ====================
+
+registerFilter({
+  name: "upper",
+  input: "string",
+  params: [],
+  example: "upper",
+  apply: (text) => text.toUpperCase(),
+});
+
+registerFilter({
+  name: "lower",
+  input: "string",
+  params: [],
+  example: "lower",
+  apply: (text) => text.toLowerCase(),
+});
+
+registerFilter({
+  name: "title",
+  input: "string",
+  params: [],
+  example: "title",
+  apply: (text) =>
+    text
+      .toLowerCase()
+      .replace(
+        /(^|[\s\-_/])(\p{L})/gu,
+        (_, before, letter) => `${before}${letter.toUpperCase()}`
+      ),
+});
+
+registerFilter({
+  name: "capitalize",
+  input: "string",
+  params: [],
+  example: "capitalize",
+  apply: (text) => text.charAt(0).toUpperCase() + text.slice(1).toLowerCase(),
+});
+
+registerFilter({
+  name: "replace",
+  input: "string",
+  params: [
+    { name: "find", type: "string", required: true },
+    { name: "with", type: "string", default: "" },
+  ],
+  example: 'replace:find="old",with="new"',
+  apply: (text, params) =>
+    text.split(params.find as string).join(params.with as string),
+});
+
+registerFilter({
+  name: "regex_replace",
+  input: "string",
+  params: [
+    { name: "pattern", type: "string", required: true },
+    { name: "with", type: "string", default: "" },
+    { name: "flags", type: "string", default: "g" },
+  ],
+  example: 'regex_replace:pattern="\\d+",with="#"',
+  check: (params) => {
+    buildRegex(params.pattern as string, params.flags as string);
+  },
+  apply: (text, params) =>
+    text.replace(
+      buildRegex(params.pattern as string, params.flags as string),
+      params.with as string
+    ),
+});
 
+registerFilter({
+  name: "pad_left",
+  input: "string",
+  params: [
+    { name: "width", type: "number", required: true, integer: true, min: 0 },
+    { name: "char", type: "string", default: " " },
+  ],
+  example: 'pad_left:width=5,char="0"',
+  apply: (text, params) =>
+    text.padStart(params.width as number, params.char as string),
+});
+
+registerFilter({
+  name: "pad_right",
+  input: "string",
+  params: [
+    { name: "width", type: "number", required: true, integer: true, min: 0 },
+    { name: "char", type: "string", default: " " },
+  ],
+  example: "pad_right=20",
+  apply: (text, params) =>
+    text.padEnd(params.width as number, params.char as string),
+});
+
+registerFilter({
+  name: "truncate_words",
+  input: "string",
+  params: [
+    { name: "count", type: "number", required: true, integer: true, min: 0 },
+    { name: "ellipsis", type: "string", default: "..." },
+  ],
+  example: 'truncate_words:count=50,ellipsis="…"',
+  apply: (text, params) =>
+    applyTruncateWordsFilter(
+      text,
+      params.count as number,
+      params.ellipsis as string
+    ),
+});
+
+registerFilter({
+  name: "wrap",
+  input: "string",
+  params: [
+    { name: "width", type: "number", required: true, integer: true, min: 1 },
+  ],
+  example: "wrap=80",
+  apply: (text, params) => applyWrapFilter(text, params.width as number),
+});
+
+registerFilter({
+  name: "indent",
+  input: "string",
+  params: [
+    { name: "width", type: "number", required: true, integer: true, min: 0 },
+    { name: "first", type: "boolean", default: true },
+  ],
+  example: "indent=2",
+  apply: (text, params) =>
+    applyIndentFilter(text, params.width as number, params.first as boolean),
+});
+
+registerFilter({
+  name: "strip_html",
+  input: "string",
+  params: [],
+  example: "strip_html",
+  apply: (text) => applyStripHtmlFilter(text),
+});
+
+registerFilter({
+  name: "collapse_whitespace",
+  input: "string",
+  params: [],
+  example: "collapse_whitespace",
+  apply: (text) => text.replace(/\s+/g, " ").trim(),
+});
+
+registerFilter({
+  name: "slugify",
+  input: "string",
+  params: [{ name: "separator", type: "string", default: "-" }],
+  example: "slugify",
+  apply: (text, params) => applySlugifyFilter(text, params.separator as string),
+});
+
+registerFilter({
+  name: "remove_emoji",
+  input: "string",
+  params: [],
+  example: "remove_emoji",
+  apply: (text) => text.replace(EMOJI_PATTERN, ""),
+});
+
+// ==================== Escaping filters ====================
+
+registerFilter({
+  name: "raw",
+  input: "any",
+  params: [],
+  example: "raw",
+  apply: (value) => value, // The interpreter skips output escaping
+});
+
+registerFilter({
+  name: "escape_json",
+  input: "string",
+  params: [],
+  example: "escape_json",
+  apply: (text) => JSON.stringify(text).slice(1, -1),
+});
+
+registerFilter({
+  name: "json",
+  input: "any",
+  params: [
+    {
+      name: "indent",
+      type: "number",
+      default: 0,
+      integer: true,
+      min: 0,
+      max: 10,
+    },
+  ],
+  example: "json=2",
+  apply: (value, params) =>
+    JSON.stringify(value ?? null, null, params.indent as number),
+});
+
+registerFilter({
+  name: "escape_xml",
+  input: "string",
+  params: [],
+  example: "escape_xml",
+  apply: (text) => text.replace(/[&<>"']/g, (char) => XML_ESCAPES[char]),
+});
+
+registerFilter({
+  name: "escape_html",
+  input: "string",
+  params: [],
+  example: "escape_html",
+  apply: (text) => text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]),
+});
+
+registerFilter({
+  name: "escape_yaml",
+  input: "string",
+  params: [],
+  example: "escape_yaml",
+  apply: (text) => applyEscapeYamlFilter(text),
+});
+
+registerFilter({
+  name: "escape_shell",
+  input: "string",
+  params: [],
+  example: "escape_shell",
+  apply: (text) => `'${text.replace(/'/g, "'\\''")}'`,
+});
+
+registerFilter({
+  name: "url_encode",
+  input: "string",
+  params: [],
+  example: "url_encode",
+  apply: (text) => encodeURIComponent(text),
+});
+
+registerFilter({
+  name: "url_decode",
+  input: "string",
+  params: [],
+  example: "url_decode",
+  apply: (text, _params, context) => applyUrlDecodeFilter(text, context),
+});
+
+registerFilter({
+  name: "base64_encode",
+  input: "string",
+  params: [],
+  example: "base64_encode",
+  apply: (text) => Buffer.from(text, "utf8").toString("base64"),
+});
+
+registerFilter({
+  name: "base64_decode",
+  input: "string",
+  params: [],
+  example: "base64_decode",
+  apply: (text, _params, context) => applyBase64DecodeFilter(text, context),
+});
+
+registerFilter({
+  name: "quote",
+  input: "string",
+  params: [{ name: "char", type: "string", default: '"' }],
+  example: 'quote="\'"',
+  check: (params) => {
+    const char = params.char as string;
+    if (char.length !== 1 || char === "\\") {
+      throw new Error(
+        `Invalid quote parameter char: ${char} (must be a single character other than \\)`
+      );
+    }
+  },
+  apply: (text, params) => applyQuoteFilter(text, params.char as string),
+});
+
+/**
+ * Apply head filter: take first N characters
+ */
+function applyHeadFilter(text: string, length: number): string {
   if (length < 0) {
     // Negative: all but last N
     return text.slice(0, text.length + length);
@@ -127,18 +1282,7 @@ function applyHeadFilter(text: string, params: Record<string, string>): string {
 /**
  * Apply tail filter: take last N characters
  */
-function applyTailFilter(text: string, params: Record<string, string>): string {
-  if (!params.value) {
-    throw new Error("tail filter requires parameter (e.g., tail=50)");
-  }
-
-  const length = Number(params.value);
-  if (isNaN(length)) {
-    throw new Error(
-      `Invalid tail parameter: ${params.value} (must be a number)`
-    );
-  }
-
+function applyTailFilter(text: string, length: number): string {
   if (length === 0) {
     return "";
   }
@@ -186,14 +1330,600 @@ function applyEscapeMdFilter(text: string): string {
 }
 
 /**
- * Apply chain of filters to text (left to right)
+ * Entities written by escape_xml and escape_html
  */
-export function applyFilters(text: string, filters: FilterCall[]): string {
-  let result = text;
+const XML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&apos;",
+};
 
-  for (const filter of filters) {
-    result = applyFilter(result, filter);
+const HTML_ESCAPES: Record<string, string> = {
+  ...XML_ESCAPES,
+  "'": "&#39;",
+};
+
+/**
+ * Apply escape_yaml filter: escape text for a double-quoted YAML scalar
+ *
+ * Uses the JSON escapes (valid in YAML double quotes) and also escapes DEL
+ * and the characters YAML 1.1 treats as line breaks.
+ */
+function applyEscapeYamlFilter(text: string): string {
+  return JSON.stringify(text)
+    .slice(1, -1)
+    .replace(
+      /[\u007f\u0085\u2028\u2029]/g,
+      (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, "0")}`
+    );
+}
+
+/**
+ * Apply url_decode filter: reverse encodeURIComponent (a TypeError for
+ * malformed escapes)
+ */
+function applyUrlDecodeFilter(text: string, context: FilterContext): string {
+  const decoded = tryDecodeURIComponent(text);
+  if (decoded === null) {
+    throw new TypeError(
+      `url_decode filter received malformed percent-encoding: ${text}`,
+      context.line,
+      context.column,
+      "Check that every % is followed by two hex digits of a UTF-8 sequence"
+    );
   }
+  return decoded;
+}
 
-  return result;
+function tryDecodeURIComponent(text: string): string | null {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Apply base64_decode filter: decode standard or URL-safe base64 (padding
+ * and whitespace optional) as UTF-8
+ */
+function applyBase64DecodeFilter(text: string, context: FilterContext): string {
+  const data = text.replace(/\s+/g, "");
+  if (!/^[A-Za-z0-9+/\-_]*={0,2}$/.test(data) || data.length % 4 === 1) {
+    throw new TypeError(
+      `base64_decode filter received invalid base64: ${text}`,
+      context.line,
+      context.column,
+      "Base64 text may only contain letters, digits, +, /, - and _ with optional = padding"
+    );
+  }
+  return Buffer.from(data, "base64").toString("utf8");
+}
+
+/**
+ * Apply quote filter: wrap in quote characters, escaping that character and
+ * backslashes with a backslash
+ */
+function applyQuoteFilter(text: string, char: string): string {
+  const escaped = text.replace(/\\/g, "\\\\").split(char).join(`\\${char}`);
+  return `${char}${escaped}${char}`;
+}
+
+/**
+ * Compile regex_replace pattern (the error names the pattern and the reason)
+ */
+function buildRegex(pattern: string, flags: string): RegExp {
+  try {
+    return new RegExp(pattern, flags);
+  } catch (error) {
+    throw invalidRegexError(pattern, error);
+  }
+}
+
+function invalidRegexError(pattern: string, error: unknown): Error {
+  const reason = error instanceof Error ? error.message : String(error);
+  return new Error(
+    `Invalid regex_replace parameter pattern: ${pattern} (${reason})`
+  );
+}
+
+/**
+ * Apply truncate_words filter: keep the first N words, then the ellipsis
+ *
+ * Whitespace between the kept words is preserved.
+ */
+function applyTruncateWordsFilter(
+  text: string,
+  count: number,
+  ellipsis: string
+): string {
+  const words = [...text.matchAll(/\S+/g)];
+  if (words.length <= count) {
+    return text;
+  }
+  if (count === 0) {
+    return ellipsis;
+  }
+
+  const last = words[count - 1];
+  return text.slice(0, (last.index ?? 0) + last[0].length) + ellipsis;
+}
+
+/**
+ * Apply wrap filter: break lines at spaces so they fit in `width` characters
+ *
+ * Existing line breaks are kept; words longer than the width get a line of
+ * their own.
+ */
+function applyWrapFilter(text: string, width: number): string {
+  return text
+    .split("\n")
+    .map((line) => {
+      const lines: string[] = [];
+      let current = "";
+
+      for (const word of line.split(/[ \t]+/).filter(Boolean)) {
+        if (current && current.length + 1 + word.length > width) {
+          lines.push(current);
+          current = word;
+        } else {
+          current = current ? `${current} ${word}` : word;
+        }
+      }
+
+      lines.push(current);
+      return lines.join("\n");
+    })
+    .join("\n");
+}
+
+/**
+ * Apply indent filter: prefix non-empty lines with `width` spaces
+ */
+function applyIndentFilter(
+  text: string,
+  width: number,
+  first: boolean
+): string {
+  const prefix = " ".repeat(width);
+  return text
+    .split("\n")
+    .map((line, index) =>
+      line.trim() === "" || (index === 0 && !first) ? line : prefix + line
+    )
+    .join("\n");
+}
+
+/**
+ * Named HTML entities decoded by strip_html
+ */
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Apply strip_html filter: drop tags (and script/style contents), decode
+ * common entities
+ */
+function applyStripHtmlFilter(text: string): string {
+  return text
+    .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/?[a-z][^>]*>/gi, "")
+    .replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] !== "#") {
+        return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+      }
+      const point =
+        code[1].toLowerCase() === "x"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    });
+}
+
+/**
+ * Apply slugify filter: "Héllo, World!" → "hello-world"
+ */
+function applySlugifyFilter(text: string, separator: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, separator)
+    .split(separator)
+    .filter(Boolean)
+    .join(separator);
+}
+
+/**
+ * Emoji sequences: emoji-style pictographs with skin tone modifiers, tag
+ * sequences and zero-width joiner combinations, plus keycaps. Text-style
+ * symbols (©, ™, ↑) are kept unless followed by the emoji variation selector.
+ */
+const EMOJI_PATTERN =
+  /(?:(?:\p{Emoji_Presentation}|\p{Extended_Pictographic}\uFE0F)\p{Emoji_Modifier}?[\u{E0020}-\u{E007F}]*(?:\u200D(?:\p{Emoji_Presentation}|\p{Extended_Pictographic})\uFE0F?\p{Emoji_Modifier}?)*|[0-9#*]\uFE0F?\u20E3)/gu;
+
+/**
+ * Read a (dotted) field from a list item; JSON object strings are parsed
+ */
+function getField(item: TemplateValue, field: string): TemplateValue {
+  let current: TemplateValue = item;
+
+  for (const key of field.split(".")) {
+    if (typeof current === "string") {
+      current = current.trim().startsWith("[")
+        ? tryCoerceToArray(current)
+        : tryCoerceToObject(current);
+    }
+    if (current == null || typeof current !== "object") return null;
+
+    current = Array.isArray(current) ? current[Number(key)] : current[key];
+  }
+
+  return current ?? null;
+}
+
+/**
+ * Numbers for sum/min/max/avg: missing and empty items are skipped, other
+ * non-numeric items are a type error
+ */
+function toNumbers(
+  filterName: string,
+  items: TemplateValue[],
+  context: FilterContext
+): number[] {
+  const numbers: number[] = [];
+
+  for (const item of items) {
+    if (item == null || item === "") continue;
+
+    const number = tryCoerceToNumber(item);
+    if (number === null) {
+      throw new TypeError(
+        `${filterName} filter expects numbers, got ${JSON.stringify(item)}`,
+        context.line,
+        context.column,
+        "Use pluck=field to pick a numeric field from objects first"
+      );
+    }
+    numbers.push(number);
+  }
+
+  return numbers;
+}
+
+/**
+ * Round half away from zero at `decimals` places (negative: tens, hundreds)
+ *
+ * The epsilon nudge makes 1.005 round to 1.01 despite its binary value.
+ */
+function roundNumber(number: number, decimals: number): number {
+  const factor = 10 ** Math.abs(decimals);
+  const abs = Math.abs(number);
+  const rounded =
+    decimals >= 0
+      ? Math.round(abs * factor * (1 + Number.EPSILON)) / factor
+      : Math.round(abs / factor) * factor;
+  return Math.sign(number) * rounded;
+}
+
+/**
+ * Reject locale parameters Intl cannot use
+ */
+function checkLocale(
+  filterName: string,
+  locale: string | number | boolean | undefined
+): void {
+  if (locale !== undefined && !isValidLocale(locale as string)) {
+    throw new Error(
+      `Invalid ${filterName} parameter locale: ${locale} (must be a locale such as en-US or de-DE)`
+    );
+  }
+}
+
+/**
+ * Whether Intl accepts a locale tag
+ */
+function isValidLocale(locale: string): boolean {
+  try {
+    Intl.getCanonicalLocales(locale);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Locale of a formatting filter: its locale parameter (checked at parse
+ * time), else the render locale, else en-US
+ */
+function resolveLocale(params: FilterParams, context: FilterContext): string {
+  if (params.locale !== undefined) return params.locale as string;
+  if (context.locale === undefined) return DEFAULT_LOCALE;
+
+  if (!isValidLocale(context.locale)) {
+    throw new TypeError(
+      `Invalid locale: ${context.locale}`,
+      context.line,
+      context.column,
+      "Set the Locale option to a locale such as en-US or de-DE"
+    );
+  }
+  return context.locale;
+}
+
+/**
+ * Format with Intl.NumberFormat in the filter's locale, falling back to the
+ * render locale. `decimals` fixes the number of fraction digits.
+ */
+function formatNumber(
+  number: number,
+  params: FilterParams,
+  context: FilterContext,
+  options: Intl.NumberFormatOptions
+): string {
+  const decimals = params.decimals as number | undefined;
+  return new Intl.NumberFormat(
+    resolveLocale(params, context),
+    decimals === undefined
+      ? options
+      : {
+          ...options,
+          minimumFractionDigits: decimals,
+          maximumFractionDigits: decimals,
+        }
+  ).format(number);
+}
+
+/**
+ * Units for the bytes filter (powers of 1024)
+ */
+const BYTE_UNITS = ["B", "KB", "MB", "GB", "TB", "PB"];
+
+/**
+ * Apply bytes filter: 1536 → "1.5 KB"
+ */
+function formatBytes(
+  bytes: number,
+  params: FilterParams,
+  context: FilterContext
+): string {
+  const exponent =
+    bytes === 0
+      ? 0
+      : Math.min(
+          Math.floor(Math.log(Math.abs(bytes)) / Math.log(1024)),
+          BYTE_UNITS.length - 1
+        );
+  const unit = BYTE_UNITS[Math.max(exponent, 0)];
+  const value = bytes / 1024 ** Math.max(exponent, 0);
+
+  const formatted = new Intl.NumberFormat(resolveLocale(params, context), {
+    maximumFractionDigits: exponent > 0 ? (params.decimals as number) : 0,
+  }).format(value);
+  return `${formatted} ${unit}`;
+}
+
+/**
+ * Milliseconds per day
+ */
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Reject time zone parameters Intl cannot use
+ */
+function checkTimeZone(
+  filterName: string,
+  timeZone: string | number | boolean | undefined
+): void {
+  if (timeZone !== undefined && !isValidTimeZone(timeZone as string)) {
+    throw new Error(
+      `Invalid ${filterName} parameter tz: ${timeZone} (must be an IANA time zone such as Europe/Berlin or UTC)`
+    );
+  }
+}
+
+/**
+ * Whether Intl accepts a time zone name
+ */
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Time zone to show a date in: calendar dates are always read in UTC, so
+ * they keep their day
+ */
+function displayTimeZone(
+  value: FilterDate,
+  params: FilterParams,
+  context: FilterContext
+): string {
+  return value.dateOnly ? "UTC" : resolveTimeZone(params, context);
+}
+
+/**
+ * Time zone of a date filter: its tz parameter (checked at parse time),
+ * else the render time zone, else UTC
+ */
+function resolveTimeZone(params: FilterParams, context: FilterContext): string {
+  if (params.tz !== undefined) return params.tz as string;
+  if (context.timeZone === undefined) return "UTC";
+
+  if (!isValidTimeZone(context.timeZone)) {
+    throw new TypeError(
+      `Invalid time zone: ${context.timeZone}`,
+      context.line,
+      context.column,
+      "Use an IANA time zone such as Europe/Berlin or UTC"
+    );
+  }
+  return context.timeZone;
+}
+
+/**
+ * Calendar fields of a date in a time zone
+ */
+interface DateFields {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+function dateFields(date: Date, timeZone: string): DateFields {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(date);
+
+  const field = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+  return {
+    year: field("year"),
+    month: field("month"),
+    day: field("day"),
+    hour: field("hour"),
+    minute: field("minute"),
+    second: field("second"),
+  };
+}
+
+/**
+ * Date format tokens (date-fns style); text in single quotes is literal
+ */
+const DATE_TOKENS =
+  /'(?:[^']|'')*'|yyyy|yy|MMMM|MMM|MM|M|dd|d|EEEE|EEE|HH|H|hh|h|mm|m|ss|s|SSS|a/g;
+
+/**
+ * Apply date filter: format tokens such as yyyy-MM-dd HH:mm
+ */
+function formatDate(
+  value: FilterDate,
+  format: string,
+  params: FilterParams,
+  context: FilterContext
+): string {
+  const timeZone = displayTimeZone(value, params, context);
+  const locale = resolveLocale(params, context);
+  const fields = dateFields(value.date, timeZone);
+  const name = (options: Intl.DateTimeFormatOptions) =>
+    new Intl.DateTimeFormat(locale, { ...options, timeZone }).format(
+      value.date
+    );
+  const pad = (number: number, length = 2) =>
+    String(number).padStart(length, "0");
+
+  return format.replace(DATE_TOKENS, (token) => {
+    switch (token) {
+      case "yyyy":
+        return pad(fields.year, 4);
+      case "yy":
+        return pad(fields.year % 100);
+      case "MMMM":
+        return name({ month: "long" });
+      case "MMM":
+        return name({ month: "short" });
+      case "MM":
+        return pad(fields.month);
+      case "M":
+        return String(fields.month);
+      case "dd":
+        return pad(fields.day);
+      case "d":
+        return String(fields.day);
+      case "EEEE":
+        return name({ weekday: "long" });
+      case "EEE":
+        return name({ weekday: "short" });
+      case "HH":
+        return pad(fields.hour);
+      case "H":
+        return String(fields.hour);
+      case "hh":
+        return pad(fields.hour % 12 || 12);
+      case "h":
+        return String(fields.hour % 12 || 12);
+      case "mm":
+        return pad(fields.minute);
+      case "m":
+        return String(fields.minute);
+      case "ss":
+        return pad(fields.second);
+      case "s":
+        return String(fields.second);
+      case "SSS":
+        return pad(value.date.getUTCMilliseconds(), 3);
+      case "a":
+        return fields.hour < 12 ? "AM" : "PM";
+      default:
+        // Quoted literal: 'at' → at, '' → '
+        return token.slice(1, -1).replace(/''/g, "'") || "'";
+    }
+  });
+}
+
+/**
+ * Units for the relative filter, largest first
+ */
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ["year", 365 * DAY],
+  ["month", 30 * DAY],
+  ["day", DAY],
+  ["hour", 60 * 60 * 1000],
+  ["minute", 60 * 1000],
+  ["second", 1000],
+];
+
+/**
+ * Apply relative filter: "3 days ago", "in 2 hours", "tomorrow"
+ *
+ * Calendar dates are compared with today's date in the time zone, so they
+ * never read as hours.
+ */
+function formatRelative(
+  value: FilterDate,
+  params: FilterParams,
+  context: FilterContext
+): string {
+  const now = context.now ?? new Date();
+  const formatter = new Intl.RelativeTimeFormat(
+    resolveLocale(params, context),
+    { numeric: "auto" }
+  );
+
+  let diff = value.date.getTime() - now.getTime();
+  let units = RELATIVE_UNITS;
+  if (value.dateOnly) {
+    const today = dateFields(now, resolveTimeZone(params, context));
+    diff =
+      value.date.getTime() - Date.UTC(today.year, today.month - 1, today.day);
+    units = RELATIVE_UNITS.filter(([, size]) => size >= DAY);
+  }
+
+  const [unit, size] =
+    units.find(([, size]) => Math.abs(diff) >= size) ?? units[units.length - 1];
+  return formatter.format(Math.round(diff / size), unit);
 }
@@ -16,12 +16,22 @@ export * from "./lexer";
 // Parser
 export * from "./parser";
 
-// Expression evaluation
+// Expression parsing and evaluation
+export * from "./expression-parser";
 export * from "./expressions";
 
+// Template inheritance
+export * from "./inheritance";
+
 // Interpreter
 export * from "./interpreter";
 
+// Compiled template cache
+export * from "./compiler";
+
+// Partial loaders
+export * from "./partials";
+
 // Utilities
 export * from "./utils";
 
@@ -0,0 +1,200 @@
+import { ASTNode, BlockNode, ExtendsNode, ProgramNode } from "./types";
+import { IncludeError, TemplateError } from "./errors";
+
+/**
+ * Template loader: returns the parsed template for a name, or null if the
+ * template does not exist
+ */
+export type TemplateLoader = (name: string) => ProgramNode | null;
+
+/**
+ * Merged programs by child template, with the chain of templates each was
+ * built from
+ *
+ * Parsed templates come from the cache, so rendering the same child again
+ * (the next item) finds the same chain of trees and reuses the merge.
+ */
+const merged = new WeakMap<
+  ProgramNode,
+  { chain: ProgramNode[]; ast: ProgramNode }
+>();
+
+/**
+ * Resolve {{EXTENDS}}: merge a child template into its chain of parents
+ *
+ * The root ancestor (the one without EXTENDS) provides the layout. Each of
+ * its blocks renders the most derived override, and {{SUPER}} inside an
+ * override renders the next ancestor's version of that block. Templates
+ * without EXTENDS are returned unchanged.
+ *
+ * Parsed templates are shared through the cache, so the merged program is
+ * built from copies and never modifies the input trees. The copy is made
+ * once per chain of parsed templates and reused by later renders.
+ */
+export function resolveInheritance(
+  ast: ProgramNode,
+  load: TemplateLoader
+): ProgramNode {
+  const chain: ProgramNode[] = [ast];
+  const names: string[] = [];
+
+  let parent = findExtends(ast);
+  while (parent) {
+    if (names.includes(parent.name)) {
+      throw new IncludeError(
+        `Template inheritance cycle detected: ${[...names, parent.name].join(" → ")}`,
+        parent.name,
+        parent.line,
+        parent.column,
+        "Remove the {{EXTENDS}} that points back to a child template"
+      );
+    }
+
+    const parentAst = loadParent(parent, load);
+    names.push(parent.name);
+    chain.push(parentAst);
+    parent = findExtends(parentAst);
+  }
+
+  if (chain.length === 1) return ast;
+
+  const cached = merged.get(ast);
+  if (
+    cached?.chain.length === chain.length &&
+    cached.chain.every((template, i) => template === chain[i])
+  ) {
+    return cached.ast;
+  }
+
+  // Block definitions per template, most derived first
+  const levels = chain.map((template) => collectBlocks(template.body));
+
+  const resolveBlock = (block: BlockNode): BlockNode => {
+    const overrides = levels
+      .map((blocks) => blocks.get(block.name))
+      .filter((def): def is BlockNode => def !== undefined);
+    return renderOverride(overrides, 0);
+  };
+
+  // Override `index` with nested blocks resolved and {{SUPER}} replaced by
+  // the next ancestor's version (left in place when there is none)
+  const renderOverride = (overrides: BlockNode[], index: number): BlockNode => {
+    const def = overrides[index];
+    return {
+      ...def,
+      body: substitute(def.body, (node) => {
+        if (node.type === "Block") return resolveBlock(node as BlockNode);
+        if (node.type === "Super" && index + 1 < overrides.length) {
+          return renderOverride(overrides, index + 1);
+        }
+        return undefined;
+      }),
+    };
+  };
+
+  // Macros of child templates come after the root's, so the most derived
+  // definition of a name wins
+  const macros = chain
+    .slice(0, -1)
+    .reverse()
+    .flatMap((template) => template.body.filter((n) => n.type === "Macro"));
+
+  const root = chain[chain.length - 1];
+  const result: ProgramNode = {
+    ...root,
+    body: [
+      ...substitute(root.body, (node) =>
+        node.type === "Block" ? resolveBlock(node as BlockNode) : undefined
+      ),
+      ...macros,
+    ],
+  };
+  merged.set(ast, { chain, ast: result });
+  return result;
+}
+
+/**
+ * Find the top-level {{EXTENDS}} of a template
+ */
+function findExtends(ast: ProgramNode): ExtendsNode | undefined {
+  return ast.body.find((node): node is ExtendsNode => node.type === "Extends");
+}
+
+/**
+ * Load a parent template, reporting its errors at the EXTENDS site
+ */
+function loadParent(parent: ExtendsNode, load: TemplateLoader): ProgramNode {
+  let ast: ProgramNode | null;
+  try {
+    ast = load(parent.name);
+  } catch (error) {
+    throw wrapParentError(error, parent);
+  }
+
+  if (ast === null) {
+    throw new IncludeError(
+      `Parent template "${parent.name}" not found`,
+      parent.name,
+      parent.line,
+      parent.column,
+      "Check the template name against the Partials list and the partials directory"
+    );
+  }
+  return ast;
+}
+
+/**
+ * Report syntax errors in a parent template at the EXTENDS site, keeping the
+ * position within the parent in the message
+ */
+function wrapParentError(error: unknown, parent: ExtendsNode): unknown {
+  if (!(error instanceof TemplateError)) return error;
+  return new IncludeError(
+    `In parent template "${parent.name}" (line ${error.line}, col ${error.column}): ${error.reason}`,
+    parent.name,
+    parent.line,
+    parent.column,
+    error.suggestion
+  );
+}
+
+/**
+ * Index every BLOCK in a tree by name, including nested blocks
+ */
+function collectBlocks(
+  value: unknown,
+  blocks: Map<string, BlockNode> = new Map()
+): Map<string, BlockNode> {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectBlocks(item, blocks));
+  } else if (value !== null && typeof value === "object") {
+    if ((value as ASTNode).type === "Block") {
+      blocks.set((value as BlockNode).name, value as BlockNode);
+    }
+    Object.values(value).forEach((child) => collectBlocks(child, blocks));
+  }
+  return blocks;
+}
+
+/**
+ * Copy a tree, swapping in replacements for the nodes `replace` returns one
+ * for (replacements are not descended into)
+ */
+function substitute<T>(
+  value: T,
+  replace: (node: ASTNode) => ASTNode | undefined
+): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => substitute(item, replace)) as T;
+  }
+  if (value === null || typeof value !== "object") return value;
+
+  const replacement = replace(value as unknown as ASTNode);
+  if (replacement) return replacement as T;
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    copy[key] = substitute(child, replace);
+  }
+  return copy as T;
+}
@@ -13,19 +13,76 @@ import {
   TernaryNode,
   VariableMap,
   TemplateValue,
+  RenderOptions,
+  ExpressionNode,
+  IncludeNode,
+  PartialLoader,
+  BlockNode,
+  SuperNode,
+  MacroNode,
+  MacroCallNode,
+  CallExpression,
+  PathExpression,
+  SetNode,
+  CaptureNode,
+  OutputFormat,
+  TraceEntry,
+  TraceEvent,
 } from "./types";
-import { TypeError, MissingVariableError } from "./errors";
+import {
+  TemplateError,
+  SyntaxError,
+  TypeError,
+  MissingVariableError,
+  IncludeError,
+  MacroError,
+} from "./errors";
+import { Lexer } from "./lexer";
+import { Parser } from "./parser";
+import { resolveInheritance } from "./inheritance";
 import {
   tryCoerceToArray,
+  tryCoerceToNumber,
   tryCoerceToObject,
   tryCoerceToString,
 } from "./coercion";
 import {
+  compareValues,
   evaluateCondition,
-  evaluateMathExpression,
+  evaluateValue,
   isTruthy,
 } from "./expressions";
-import { parseFilter, applyFilters } from "./filters";
+import { applyFilter, applyFilters, FilterContext } from "./filters";
+
+/**
+ * Maximum nesting of macro calls (guards against runaway recursion)
+ */
+const MAX_MACRO_DEPTH = 100;
+
+/**
+ * Variables every template can read without a mapping; mapped variables of
+ * the same name take precedence
+ */
+export const BUILTIN_VARIABLES = ["now"];
+
+/**
+ * Filter that escapes substitutions for each output format
+ */
+const OUTPUT_ESCAPE_FILTERS: Record<OutputFormat, string | undefined> = {
+  markdown: "escape_md",
+  html: "escape_html",
+  xml: "escape_xml",
+  json: "escape_json",
+  plain: undefined,
+};
+
+/**
+ * Single FOR loop step: array index or object key, plus its value
+ */
+interface LoopEntry {
+  key: string | number;
+  value: TemplateValue;
+}
 
 /**
  * Interpreter: Walks AST and produces output string
@@ -36,34 +93,122 @@ import { parseFilter, applyFilters } from "./filters";
  * - Conditional rendering (IF/ELSE/ELSEIF)
  * - CASE/WHEN/DEFAULT blocks
  * - FOR loops with special variables (@index0, @first, @last, etc.)
+ * - Lexically scoped loop bindings with access to outer loops (@parent)
+ * - Partials ({{INCLUDE}}) with cycle detection
+ * - Template inheritance ({{EXTENDS}}, {{BLOCK}}, {{SUPER}})
+ * - Macros ({{MACRO}}, {{CALL}}, ${{name(args)}}) with a scope per call
+ * - Template-local variables ({{SET}}, {{CAPTURE}})
  * - Lists (numbered, nested)
  * - Tables (with/without headers, alignment)
  * - Filters (head, tail, trim, escape_md)
+ * - Auto-escaping of substitutions for the output format (| raw opts out)
  * - Default operator (??)
  * - Ternary with variable references
  */
 export class Interpreter {
   private strictMode: boolean;
-  private loopContext: Map<string, TemplateValue> = new Map();
 
+  /**
+   * Scope stack, innermost last. The first scope holds top-level SET and
+   * CAPTURE bindings; each loop iteration, include and macro call pushes its
+   * own scope, so nested loops never clobber the bindings of enclosing loops.
+   */
+  private scopes: Map<string, TemplateValue>[] = [new Map()];
+
+  private partials?: PartialLoader;
+
+  private locale?: string;
+
+  private timeZone?: string;
+
+  private now: Date;
+
+  private outputFormat: OutputFormat;
+
+  private trace?: TraceEntry[];
+
+  private renderedVariables: Set<string>;
+
+  /**
+   * Names per scope bound to template output (CAPTURE bodies, macro results,
+   * or SET, macro arguments and INCLUDE bindings taken from them). Its
+   * substitutions were escaped when it rendered, so it is not escaped again.
+   */
+  private renderedBindings: WeakMap<Map<string, TemplateValue>, Set<string>> =
+    new WeakMap();
+
+  /**
+   * Names of partials currently being rendered, outermost first
+   */
+  private includeStack: string[] = [];
+
+  /**
+   * Macros defined so far; templates and partials register theirs when they
+   * start rendering
+   */
+  private macros: Map<string, MacroNode> = new Map();
+
+  /**
+   * Names of macros currently being called, outermost first
+   */
+  private callStack: string[] = [];
+
+  /**
+   * @param variables - Template variables
+   * @param options - Render options (strict mode, partials, locale, time
+   *   zone, current time, output format, trace, rendered variables)
+   * @param parse - Parses partial text into an AST; compiled templates pass
+   *   a cached parser that uses the same compile options as the parent
+   */
   constructor(
     private variables: VariableMap,
-    options?: { strictMode?: boolean }
+    options?: RenderOptions,
+    private parse: (source: string) => ProgramNode = (source) =>
+      new Parser(new Lexer(source).tokenize()).parse()
   ) {
     this.strictMode = options?.strictMode ?? true;
+    this.partials = options?.partials;
+    this.locale = options?.locale;
+    this.timeZone = options?.timeZone;
+    this.now = options?.now ?? new Date();
+    this.outputFormat = options?.outputFormat ?? "plain";
+    this.trace = options?.trace;
+    this.renderedVariables = new Set(options?.renderedVariables);
+
+    // Built-in `now` (ISO 8601, UTC) unless the caller maps its own
+    if (!variables.has("now")) {
+      this.variables = new Map([["now", this.now.toISOString()], ...variables]);
+    }
   }
 
   /**
    * Main interpretation entry point
    */
   interpret(ast: ProgramNode): string {
-    return this.visitProgram(ast);
+    return this.visitProgram(this.resolveParents(ast));
+  }
+
+  /**
+   * Merge a child template into its {{EXTENDS}} parents, loaded through the
+   * partial loader
+   */
+  private resolveParents(ast: ProgramNode): ProgramNode {
+    return resolveInheritance(ast, (name) => {
+      const source = this.partials?.(name) ?? null;
+      return source === null ? null : this.parse(source);
+    });
   }
 
   /**
    * Visit program node (root)
    */
   private visitProgram(node: ProgramNode): string {
+    // Macros are hoisted: callable before their definition
+    for (const child of node.body) {
+      if (child.type === "Macro") {
+        this.macros.set((child as MacroNode).name, child as MacroNode);
+      }
+    }
     return node.body.map((child) => this.visit(child)).join("");
   }
 
@@ -82,6 +227,20 @@ export class Interpreter {
         return this.visitCase(node as CaseNode);
       case "For":
         return this.visitFor(node as ForNode);
+      case "Include":
+        return this.visitInclude(node as IncludeNode);
+      case "Block":
+        return this.visitBlock(node as BlockNode);
+      case "Super":
+        return this.visitSuper(node as SuperNode);
+      case "Macro":
+        return ""; // Registered by visitProgram, renders only when called
+      case "MacroCall":
+        return this.callMacro((node as MacroCallNode).call);
+      case "Set":
+        return this.visitSet(node as SetNode);
+      case "Capture":
+        return this.visitCapture(node as CaptureNode);
       case "List":
         return this.visitList(node as ListNode);
       case "Table":
@@ -106,88 +265,227 @@ export class Interpreter {
    * Visit variable node: ${{name}}, ${{user.name | filter}}, ${{a + b}}
    */
   private visitVariable(node: VariableNode): string {
-    // Check if this is a math expression (contains operators)
-    const pathStr = node.path.join(".");
-    if (this.isMathExpression(pathStr)) {
-      try {
-        const result = evaluateMathExpression(pathStr, this.getAllVariables());
-        return String(result);
-      } catch (error) {
-        console.log("Invalid math expression error:", error);
-        // Not a valid math expression, continue with normal resolution
+    const value = this.evaluateVariable(node);
+    const text = this.valueToString(value);
+
+    const optedOut = node.filters?.some(
+      (filter) =>
+        filter.name === "raw" ||
+        filter.name === OUTPUT_ESCAPE_FILTERS[this.outputFormat]
+    );
+    return optedOut || this.isRenderedOutput(node, value)
+      ? text
+      : this.escapeOutput(text);
+  }
+
+  /**
+   * Escape substituted text for the output format
+   */
+  private escapeOutput(text: string): string {
+    const filter = OUTPUT_ESCAPE_FILTERS[this.outputFormat];
+    if (!filter) return text;
+    return applyFilter(text, { name: filter, params: {} }) as string;
+  }
+
+  /**
+   * Check whether a substitution yields template output: a macro call or a
+   * name bound to rendered output. Filters keep it that way as long as they
+   * return text.
+   */
+  private isRenderedOutput(node: VariableNode, value: TemplateValue): boolean {
+    if (typeof value !== "string") return false;
+    return node.expression
+      ? this.isRenderedExpression(node.expression)
+      : this.isRenderedPath(node.path);
+  }
+
+  /**
+   * Check whether an expression is a macro call or a path to rendered
+   * output
+   */
+  private isRenderedExpression(expression: ExpressionNode): boolean {
+    if (expression.type === "Call") return true;
+    if (expression.type !== "Path") return false;
+    return this.isRenderedPath((expression as PathExpression).path);
+  }
+
+  /**
+   * Check whether a path reads rendered output: a name that resolves
+   * (innermost scope first) to a binding of it, or any field of a variable
+   * the caller marked as rendered (@outputs). Other variables never are.
+   */
+  private isRenderedPath(path: string[]): boolean {
+    const [name] = path;
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      if (this.scopes[i].has(name)) {
+        return (
+          path.length === 1 &&
+          (this.renderedBindings.get(this.scopes[i])?.has(name) ?? false)
+        );
       }
     }
+    return this.renderedVariables.has(name);
+  }
 
+  /**
+   * Bind a name in a scope, recording whether the value is rendered output
+   */
+  private bind(
+    scope: Map<string, TemplateValue>,
+    name: string,
+    value: TemplateValue,
+    rendered: boolean
+  ): void {
+    scope.set(name, value);
+    const names = this.renderedBindings.get(scope) ?? new Set<string>();
+    if (rendered) {
+      names.add(name);
+    } else {
+      names.delete(name);
+    }
+    this.renderedBindings.set(scope, names);
+  }
+
+  /**
+   * Evaluate substitution (macro call, expression or path) with its default
+   * and filters applied
+   */
+  private evaluateVariable(node: VariableNode): TemplateValue {
     const allowUndefined = node.defaultValue !== undefined;
-    let value = this.resolveNestedPath(node.path, allowUndefined);
+    let value: TemplateValue;
+    if (node.expression?.type === "Call") {
+      value = this.callMacro(node.expression as CallExpression);
+    } else if (node.expression) {
+      value = evaluateValue(node.expression, this.getAllVariables(), {
+        strict: this.strictMode && !allowUndefined,
+      });
+    } else {
+      value = this.resolveNestedPath(node.path, allowUndefined, node);
+    }
 
     // Apply default operator if value is falsy
     if (node.defaultValue !== undefined && !isTruthy(value)) {
       value = node.defaultValue;
     }
 
-    // Apply filters
+    // Apply filters (typed values; stringified only for output)
     if (node.filters && node.filters.length > 0) {
-      const text = this.valueToString(value);
-      const filters = node.filters.map((f) => parseFilter(f.name));
-      value = applyFilters(text, filters);
+      value = applyFilters(value, node.filters, this.filterContext(node));
     }
 
-    return this.valueToString(value);
+    return value;
+  }
+  /**
+   * Filter context for a node: its position, the render locale and time zone
+   * and the current time
+   */
+  private filterContext(node: ASTNode): FilterContext {
+    return {
+      line: node.line,
+      column: node.column,
+      locale: this.locale,
+      timeZone: this.timeZone,
+      now: this.now,
+    };
+  }
+
+  /**
+   * Visit SET node: bind the value in the innermost scope (a loop iteration,
+   * include or macro call, or the template itself)
+   */
+  private visitSet(node: SetNode): string {
+    const value = this.evaluateVariable(node.value);
+    this.bind(
+      this.scopes[this.scopes.length - 1],
+      node.name,
+      value,
+      this.isRenderedOutput(node.value, value)
+    );
+    return "";
   }
 
   /**
-   * Check if expression is a math expression
+   * Visit CAPTURE node: bind the rendered body as a string
    */
-  private isMathExpression(expr: string): boolean {
-    // Contains math operators but isn't just a path
-    const hasMathOp = /[+\-*/%]/.test(expr);
-    const hasParens = /[()]/.test(expr);
-    return hasMathOp || hasParens;
+  private visitCapture(node: CaptureNode): string {
+    const output = node.body.map((child) => this.visit(child)).join("");
+    this.bind(this.scopes[this.scopes.length - 1], node.name, output, true);
+    return "";
   }
 
   /**
    * Visit IF node
    */
   private visitIf(node: IfNode): string {
-    const result = evaluateCondition(node.condition, this.getAllVariables());
-
-    if (result) {
-      return node.consequent.map((child) => this.visit(child)).join("");
-    }
+    const variables = this.getAllVariables();
+    let clause = node;
+    let branch: "IF" | "ELSEIF" = "IF";
 
-    if (node.alternate) {
-      if (Array.isArray(node.alternate)) {
+    while (!evaluateCondition(clause.condition, variables)) {
+      if (Array.isArray(clause.alternate)) {
         // ELSE branch
-        return node.alternate.map((child) => this.visit(child)).join("");
-      } else {
-        // ELSEIF (nested IfNode)
-        return this.visitIf(node.alternate);
+        this.record(node, { type: "If", branch: "ELSE", branchLine: null });
+        return clause.alternate.map((child) => this.visit(child)).join("");
+      }
+      if (!clause.alternate) {
+        this.record(node, { type: "If", branch: null, branchLine: null });
+        return "";
       }
+      // ELSEIF (nested IfNode)
+      clause = clause.alternate;
+      branch = "ELSEIF";
     }
 
-    return "";
+    this.record(node, {
+      type: "If",
+      branch,
+      branchLine: branch === "ELSEIF" ? clause.line : null,
+    });
+    return clause.consequent.map((child) => this.visit(child)).join("");
+  }
+
+  /**
+   * Add an entry to the render trace (when the caller asked for one)
+   */
+  private record(node: ASTNode, event: TraceEvent): void {
+    if (!this.trace) return;
+    const partial = this.includeStack[this.includeStack.length - 1];
+    this.trace.push({
+      line: node.line,
+      column: node.column,
+      ...(partial !== undefined && { partial }),
+      ...event,
+    });
   }
 
   /**
    * Visit CASE node
    */
   private visitCase(node: CaseNode): string {
-    const value = this.resolveNestedPath(node.expression.split("."));
+    const value = evaluateValue(node.expression, this.getAllVariables(), {
+      strict: this.strictMode,
+    });
     const valueStr = this.valueToString(value);
 
     // Check WHEN clauses
     for (const whenNode of node.cases) {
       if (valueStr === whenNode.value) {
+        this.record(node, {
+          type: "Case",
+          value: valueStr,
+          arm: whenNode.value,
+        });
         return whenNode.body.map((child) => this.visit(child)).join("");
       }
     }
 
     // Fall to DEFAULT
     if (node.default) {
+      this.record(node, { type: "Case", value: valueStr, arm: "DEFAULT" });
       return node.default.body.map((child) => this.visit(child)).join("");
     }
 
+    this.record(node, { type: "Case", value: valueStr, arm: null });
     return "";
   }
 
@@ -195,42 +493,503 @@ export class Interpreter {
    * Visit FOR loop
    */
   private visitFor(node: ForNode): string {
-    const iterable = this.resolveNestedPath(node.iterable);
-    const array = tryCoerceToArray(iterable);
+    const entries = this.loopEntries(node);
 
-    if (array === null) {
-      if (this.strictMode) {
-        throw new TypeError(
-          `Cannot iterate over non-array value: ${JSON.stringify(iterable)}`,
-          node.line,
-          node.column,
-          "Ensure the value is an array or can be coerced to one"
-        );
-      }
-      return "";
+    if (entries === null || entries.length === 0) {
+      return node.empty
+        ? node.empty.map((child) => this.visit(child)).join("")
+        : "";
     }
 
     const results: string[] = [];
 
-    for (let i = 0; i < array.length; i++) {
-      // Set loop context
-      this.loopContext.set(node.itemName, array[i]);
-      this.loopContext.set("@index0", i);
-      this.loopContext.set("@index1", i + 1);
-      this.loopContext.set("@first", i === 0);
-      this.loopContext.set("@last", i === array.length - 1);
-      this.loopContext.set("@notFirst", i !== 0);
-      this.loopContext.set("@notLast", i !== array.length - 1);
-
-      // Render body
+    this.iterate(node, entries, () => {
       const output = node.body.map((child) => this.visit(child)).join("");
       results.push(output);
+    });
+
+    return results.join("");
+  }
+
+  /**
+   * Resolve a FOR loop's entries and trace how often it runs
+   */
+  private loopEntries(node: ForNode): LoopEntry[] | null {
+    const entries = this.resolveLoopEntries(node);
+    this.record(node, {
+      type: "For",
+      iterable: node.iterable.join("."),
+      iterations: entries?.length ?? 0,
+    });
+    return entries;
+  }
+
+  /**
+   * Resolve FOR iterable into key/value entries
+   *
+   * - Arrays (and values coercible to arrays): index → item
+   * - Objects (and JSON object strings): key → value, in insertion order
+   *   unless the loop asks for alphabetical order
+   *
+   * Iterable filters ({{FOR items | unique AS item}}) run first; loop
+   * modifiers (WHERE, SORT BY, ...) are applied before returning.
+   * Returns null for non-iterable values in lenient mode. Loops with an
+   * {{EMPTY}} branch treat missing and null values as empty.
+   */
+  private resolveLoopEntries(node: ForNode): LoopEntry[] | null {
+    const hasEmptyBranch = node.empty !== undefined;
+    let iterable = this.resolveNestedPath(node.iterable, hasEmptyBranch, node);
+    if (iterable == null && hasEmptyBranch) return [];
+
+    if (node.filters) {
+      iterable = applyFilters(iterable, node.filters, this.filterContext(node));
     }
 
-    // Clear loop context
-    this.loopContext.clear();
+    const array = tryCoerceToArray(iterable);
+    if (array !== null) {
+      return this.applyLoopModifiers(
+        node,
+        array.map((value, index) => ({ key: index, value }))
+      );
+    }
 
-    return results.join("");
+    const object = tryCoerceToObject(iterable);
+    if (object !== null) {
+      const keys = Object.keys(object);
+      if (node.keyOrder === "alphabetical") {
+        keys.sort((a, b) => a.localeCompare(b));
+      }
+      return this.applyLoopModifiers(
+        node,
+        keys.map((key) => ({ key, value: object[key] }))
+      );
+    }
+
+    if (this.strictMode) {
+      throw new TypeError(
+        `Cannot iterate over non-array value: ${JSON.stringify(iterable)}`,
+        node.line,
+        node.column,
+        "Ensure the value is an array, an object, or can be coerced to one"
+      );
+    }
+    return null;
+  }
+
+  /**
+   * Apply FOR modifiers in order: WHERE → SORT BY → REVERSE → OFFSET → LIMIT
+   *
+   * WHERE and SORT BY see the loop item (and key) only; @index, @first,
+   * @last and @length in the body describe the final sequence.
+   */
+  private applyLoopModifiers(node: ForNode, entries: LoopEntry[]): LoopEntry[] {
+    let result = entries;
+
+    const where = node.where;
+    if (where) {
+      result = result.filter((entry) =>
+        this.withItemBindings(node, entry, () =>
+          evaluateCondition(where, this.getAllVariables())
+        )
+      );
+    }
+
+    const sortBy = node.sortBy;
+    if (sortBy) {
+      const keyed = result.map((entry) => ({
+        entry,
+        keys: this.withItemBindings(node, entry, () => {
+          const variables = this.getAllVariables();
+          return sortBy.map((key) => evaluateValue(key.expression, variables));
+        }),
+      }));
+
+      // Array.prototype.sort is stable: ties keep their original order
+      keyed.sort((a, b) => {
+        for (let i = 0; i < sortBy.length; i++) {
+          const order = compareValues(a.keys[i], b.keys[i]);
+          if (order === 0) continue;
+          // Missing values stay last in both directions
+          if (a.keys[i] == null || b.keys[i] == null) return order;
+          return sortBy[i].descending ? -order : order;
+        }
+        return 0;
+      });
+
+      result = keyed.map((k) => k.entry);
+    }
+
+    if (node.reverse) {
+      result = [...result].reverse();
+    }
+
+    if (node.offset) {
+      result = result.slice(this.evaluateCount(node.offset, "OFFSET"));
+    }
+
+    if (node.limit) {
+      result = result.slice(0, this.evaluateCount(node.limit, "LIMIT"));
+    }
+
+    return result;
+  }
+
+  /**
+   * Evaluate LIMIT/OFFSET value, which must be a non-negative integer
+   */
+  private evaluateCount(expression: ExpressionNode, clause: string): number {
+    const value = evaluateValue(expression, this.getAllVariables(), {
+      strict: this.strictMode,
+    });
+    const count = tryCoerceToNumber(value);
+
+    if (count === null || !Number.isInteger(count) || count < 0) {
+      throw new TypeError(
+        `${clause} must be a non-negative integer, got ${JSON.stringify(value)}`,
+        expression.line,
+        expression.column,
+        `Example: {{FOR items AS item ${clause} 5}}`
+      );
+    }
+
+    return count;
+  }
+
+  /**
+   * Run callback with only the loop item (and key) bound, for WHERE/SORT BY
+   */
+  private withItemBindings<T>(
+    node: ForNode,
+    entry: LoopEntry,
+    callback: () => T
+  ): T {
+    const scope: Map<string, TemplateValue> = new Map();
+    if (node.keyName) scope.set(node.keyName, entry.key);
+    scope.set(node.itemName, this.loopItem(node, entry));
+
+    this.scopes.push(scope);
+    try {
+      return callback();
+    } finally {
+      this.scopes.pop();
+    }
+  }
+
+  /**
+   * Value bound to the item name: the element itself, or { key, value } when
+   * a single name iterates over an object
+   */
+  private loopItem(node: ForNode, entry: LoopEntry): TemplateValue {
+    return node.keyName || typeof entry.key === "number"
+      ? entry.value
+      : { key: entry.key, value: entry.value };
+  }
+
+  /**
+   * Run callback once per entry, each time inside a fresh scope holding the
+   * item and loop variables:
+   * - @index0, @index1, @first, @last, @notFirst, @notLast, @length
+   * - @depth: nesting level (1 = outermost loop)
+   * - @loop: all of the above as an object (plus item, key and parent)
+   * - @parent: the enclosing loop's @loop object (null at the top level)
+   * - @<itemName>: named alias of @loop, e.g. @order.index1
+   *
+   * With two names (FOR obj AS key, value) the key and value are bound
+   * separately; with one name, object entries are bound as { key, value }.
+   */
+  private iterate(
+    node: ForNode,
+    entries: LoopEntry[],
+    callback: () => void
+  ): void {
+    const parent = this.lookup("@loop") ?? null;
+    const depth =
+      parent && typeof parent === "object" && !Array.isArray(parent)
+        ? Number(parent.depth) + 1
+        : 1;
+
+    for (let i = 0; i < entries.length; i++) {
+      const { key } = entries[i];
+      const item = this.loopItem(node, entries[i]);
+
+      const loop: Record<string, TemplateValue> = {
+        item,
+        key,
+        index0: i,
+        index1: i + 1,
+        first: i === 0,
+        last: i === entries.length - 1,
+        notFirst: i !== 0,
+        notLast: i !== entries.length - 1,
+        length: entries.length,
+        depth,
+        parent,
+      };
+
+      const scope: Map<string, TemplateValue> = new Map();
+      if (node.keyName) scope.set(node.keyName, key);
+      scope.set(node.itemName, item);
+      scope.set(`@${node.itemName}`, loop);
+      scope.set("@index0", loop.index0);
+      scope.set("@index1", loop.index1);
+      scope.set("@first", loop.first);
+      scope.set("@last", loop.last);
+      scope.set("@notFirst", loop.notFirst);
+      scope.set("@notLast", loop.notLast);
+      scope.set("@length", loop.length);
+      scope.set("@depth", depth);
+      scope.set("@loop", loop);
+      scope.set("@parent", parent);
+
+      this.scopes.push(scope);
+      try {
+        callback();
+      } finally {
+        this.scopes.pop();
+      }
+    }
+  }
+
+  /**
+   * Visit INCLUDE node: render partial with the current variables plus its
+   * WITH bindings
+   */
+  private visitInclude(node: IncludeNode): string {
+    if (this.includeStack.includes(node.name)) {
+      const cycle = [...this.includeStack, node.name].join(" → ");
+      throw new IncludeError(
+        `Include cycle detected: ${cycle}`,
+        node.name,
+        node.line,
+        node.column,
+        "Remove the {{INCLUDE}} that points back to an including template"
+      );
+    }
+
+    const source = this.partials?.(node.name) ?? null;
+    if (source === null) {
+      throw new IncludeError(
+        `Partial "${node.name}" not found`,
+        node.name,
+        node.line,
+        node.column,
+        this.partials
+          ? "Check the partial name against the Partials list and the partials directory"
+          : "No partials configured. Add partials or a partials directory in the node settings"
+      );
+    }
+
+    const variables = this.getAllVariables();
+    const scope: Map<string, TemplateValue> = new Map();
+    for (const binding of node.bindings) {
+      this.bind(
+        scope,
+        binding.name,
+        evaluateValue(binding.value, variables, { strict: this.strictMode }),
+        this.isRenderedExpression(binding.value)
+      );
+    }
+
+    this.includeStack.push(node.name);
+    this.scopes.push(scope);
+    try {
+      return this.visitProgram(this.resolveParents(this.parse(source)));
+    } catch (error) {
+      throw this.wrapPartialError(error, node);
+    } finally {
+      this.scopes.pop();
+      this.includeStack.pop();
+    }
+  }
+
+  /**
+   * Report errors raised inside a partial at the INCLUDE site, keeping the
+   * position within the partial in the message
+   */
+  private wrapPartialError(error: unknown, node: IncludeNode): unknown {
+    if (!(error instanceof TemplateError)) return error;
+    return new IncludeError(
+      `In partial "${node.name}" (line ${error.line}, col ${error.column}): ${error.reason}`,
+      node.name,
+      node.line,
+      node.column,
+      error.suggestion
+    );
+  }
+
+  /**
+   * Visit BLOCK node (overrides are already merged in by resolveParents)
+   */
+  private visitBlock(node: BlockNode): string {
+    return node.body.map((child) => this.visit(child)).join("");
+  }
+
+  /**
+   * Visit SUPER node left over after inheritance resolution: its block does
+   * not override anything
+   */
+  private visitSuper(node: SuperNode): string {
+    throw new SyntaxError(
+      `{{SUPER}} in block "${node.block}" has no parent block to render`,
+      node.line,
+      node.column,
+      "{{SUPER}} only works in a block that overrides a block of the {{EXTENDS}} template"
+    );
+  }
+
+  /**
+   * Call macro: render its body in a fresh scope holding only the arguments
+   * (plus the template variables), so caller loop bindings do not leak in
+   */
+  private callMacro(call: CallExpression): string {
+    const macro = this.macros.get(call.callee);
+    if (!macro) {
+      throw new MacroError(
+        `Macro "${call.callee}" is not defined`,
+        call.callee,
+        call.line,
+        call.column,
+        this.macros.size > 0
+          ? `Available macros: ${Array.from(this.macros.keys()).join(", ")}`
+          : "Define it with {{MACRO name(params)}}...{{END_MACRO}}"
+      );
+    }
+
+    if (this.callStack.length >= MAX_MACRO_DEPTH) {
+      throw new MacroError(
+        `Macro calls nested more than ${MAX_MACRO_DEPTH} deep in "${macro.name}"`,
+        macro.name,
+        call.line,
+        call.column,
+        "Check that recursive macros stop, e.g. with {{IF node.children}}"
+      );
+    }
+
+    const scope = this.bindArguments(macro, call);
+    const outerScopes = this.scopes;
+
+    this.scopes = [scope];
+    this.callStack.push(macro.name);
+    try {
+      return macro.body.map((child) => this.visit(child)).join("");
+    } catch (error) {
+      throw this.wrapMacroError(error, call);
+    } finally {
+      this.callStack.pop();
+      this.scopes = outerScopes;
+    }
+  }
+
+  /**
+   * Bind call arguments to macro parameters
+   *
+   * Arguments are evaluated in the caller's scope; defaults are evaluated in
+   * the macro's scope, so they can refer to earlier parameters.
+   */
+  private bindArguments(
+    macro: MacroNode,
+    call: CallExpression
+  ): Map<string, TemplateValue> {
+    const signature = `${macro.name}(${macro.params
+      .map((p) => (p.defaultValue ? `${p.name}=...` : p.name))
+      .join(", ")})`;
+
+    if (call.args.length > macro.params.length) {
+      throw new MacroError(
+        `Macro "${macro.name}" takes ${macro.params.length} argument(s), got ${call.args.length}`,
+        macro.name,
+        call.line,
+        call.column,
+        `Signature: ${signature}`
+      );
+    }
+
+    const callerVariables = this.getAllVariables();
+    const evaluate = (expression: ExpressionNode, variables: VariableMap) =>
+      evaluateValue(expression, variables, { strict: this.strictMode });
+
+    const scope: Map<string, TemplateValue> = new Map();
+    call.args.forEach((arg, i) => {
+      this.bind(
+        scope,
+        macro.params[i].name,
+        evaluate(arg, callerVariables),
+        this.isRenderedExpression(arg)
+      );
+    });
+
+    for (const arg of call.namedArgs) {
+      if (!macro.params.some((p) => p.name === arg.name)) {
+        throw new MacroError(
+          `Macro "${macro.name}" has no parameter "${arg.name}"`,
+          macro.name,
+          call.line,
+          call.column,
+          `Signature: ${signature}`
+        );
+      }
+      if (scope.has(arg.name)) {
+        throw new MacroError(
+          `Argument "${arg.name}" given more than once`,
+          macro.name,
+          call.line,
+          call.column,
+          `Signature: ${signature}`
+        );
+      }
+      this.bind(
+        scope,
+        arg.name,
+        evaluate(arg.value, callerVariables),
+        this.isRenderedExpression(arg.value)
+      );
+    }
+
+    for (const param of macro.params) {
+      if (scope.has(param.name)) continue;
+      if (!param.defaultValue) {
+        throw new MacroError(
+          `Missing argument "${param.name}" for macro "${macro.name}"`,
+          macro.name,
+          call.line,
+          call.column,
+          `Signature: ${signature}`
+        );
+      }
+      scope.set(
+        param.name,
+        evaluate(param.defaultValue, new Map([...this.variables, ...scope]))
+      );
+    }
+
+    return scope;
+  }
+
+  /**
+   * Report errors raised inside a macro body at the call site, keeping the
+   * position within the body in the message
+   *
+   * Recursive calls re-anchor the error at the outer call site instead of
+   * chaining one message per level.
+   */
+  private wrapMacroError(error: unknown, call: CallExpression): unknown {
+    if (!(error instanceof TemplateError)) return error;
+    if (error instanceof MacroError && error.macroName === call.callee) {
+      return new MacroError(
+        error.reason,
+        call.callee,
+        call.line,
+        call.column,
+        error.suggestion
+      );
+    }
+    return new MacroError(
+      `In macro "${call.callee}" (line ${error.line}, col ${error.column}): ${error.reason}`,
+      call.callee,
+      call.line,
+      call.column,
+      error.suggestion
+    );
   }
 
   /**
@@ -306,39 +1065,14 @@ export class Interpreter {
         const forNode = rowNode.cells[0][0] as ForNode;
 
         // Iterate and generate rows
-        const iterable = this.resolveNestedPath(forNode.iterable);
-        const array = tryCoerceToArray(iterable);
-
-        if (array) {
-          for (let i = 0; i < array.length; i++) {
-            // Set loop context
-            this.loopContext.set(forNode.itemName, array[i]);
-            this.loopContext.set("@index0", i);
-            this.loopContext.set("@index1", i + 1);
-            this.loopContext.set("@first", i === 0);
-            this.loopContext.set("@last", i === array.length - 1);
-            this.loopContext.set("@notFirst", i !== 0);
-            this.loopContext.set("@notLast", i !== array.length - 1);
-
-            // Process FOR body - look for TableRow nodes
-            for (const bodyNode of forNode.body) {
-              if (bodyNode.type === "TableRow") {
-                const tableRowNode = bodyNode as TableRowNode;
-                const cells = this.processCellsArray(tableRowNode.cells);
-                rows.push(cells);
-              } else {
-                // Fallback: render and split by |
-                const forOutput = this.visit(bodyNode);
-                if (forOutput.trim()) {
-                  const cells = forOutput.split("|").map((cell) => cell.trim());
-                  rows.push(cells);
-                }
-              }
-            }
-          }
-
-          // Clear loop context
-          this.loopContext.clear();
+        const entries = this.loopEntries(forNode);
+
+        if (entries && entries.length > 0) {
+          this.iterate(forNode, entries, () => {
+            rows.push(...this.processLoopRows(forNode.body));
+          });
+        } else if (forNode.empty) {
+          rows.push(...this.processLoopRows(forNode.empty));
         }
       } else {
         // Regular row - process all cells
@@ -394,6 +1128,29 @@ export class Interpreter {
     return lines.join("\n");
   }
 
+  /**
+   * Render FOR section inside a table into rows: ROW nodes keep their cells,
+   * anything else is rendered and split by |
+   */
+  private processLoopRows(nodes: ASTNode[]): string[][] {
+    const rows: string[][] = [];
+
+    for (const bodyNode of nodes) {
+      if (bodyNode.type === "TableRow") {
+        const tableRowNode = bodyNode as TableRowNode;
+        rows.push(this.processCellsArray(tableRowNode.cells));
+      } else {
+        // Fallback: render and split by |
+        const forOutput = this.visit(bodyNode);
+        if (forOutput.trim()) {
+          rows.push(forOutput.split("|").map((cell) => cell.trim()));
+        }
+      }
+    }
+
+    return rows;
+  }
+
   /**
    * Process cells array where each cell is an array of AST nodes
    * Returns an array of strings, one per cell
@@ -409,34 +1166,18 @@ export class Interpreter {
    * Visit TERNARY node
    */
   private visitTernary(node: TernaryNode): string {
-    const result = evaluateCondition(node.condition, this.getAllVariables());
+    const variables = this.getAllVariables();
+    const branch = evaluateCondition(node.condition, variables)
+      ? node.trueValue
+      : node.falseValue;
 
-    if (result) {
-      return this.resolveTernaryValue(node.trueValue);
-    } else {
-      return this.resolveTernaryValue(node.falseValue);
-    }
-  }
-
-  /**
-   * Resolve ternary value (can be string literal or variable reference)
-   */
-  private resolveTernaryValue(value: string | TernaryNode): string {
-    if (typeof value !== "string") {
-      // Nested ternary
-      return this.visitTernary(value);
-    }
-
-    // Check if it's a variable reference: ${{varName}}
-    const varMatch = value.match(/^\$\{\{(.+?)\}\}$/);
-    if (varMatch) {
-      const path = varMatch[1].split(".");
-      const resolved = this.resolveNestedPath(path);
-      return this.valueToString(resolved);
-    }
-
-    // Static string
-    return value;
+    const text = this.valueToString(
+      evaluateValue(branch, variables, { strict: this.strictMode })
+    );
+    // Quoted branches are template text; values are escaped like ${{ }}
+    return branch.type === "Literal" || this.isRenderedExpression(branch)
+      ? text
+      : this.escapeOutput(text);
   }
 
   /**
@@ -450,33 +1191,38 @@ export class Interpreter {
    */
   private resolveNestedPath(
     path: string[],
-    allowUndefined = false
+    allowUndefined = false,
+    position: { line: number; column: number } = { line: 1, column: 1 }
   ): TemplateValue {
     const rootKey = path[0];
 
-    let current: TemplateValue;
-    const hasKey = this.loopContext.has(rootKey) || this.variables.has(rootKey);
-
-    // Determine correct root value
-    if (this.loopContext.has(rootKey)) {
-      current = this.loopContext.get(rootKey);
-    } else if (this.variables.has(rootKey)) {
-      current = this.variables.get(rootKey);
-    }
+    const hasKey =
+      this.scopes.some((scope) => scope.has(rootKey)) ||
+      this.variables.has(rootKey);
+    let current = this.lookup(rootKey);
 
     // Missing variable (not existing key)
     if (!hasKey) {
       if (!allowUndefined && this.strictMode) {
         throw new MissingVariableError(
           rootKey,
-          1,
-          1,
+          position.line,
+          position.column,
           Array.from(this.variables.keys())
         );
       }
       return null;
     }
 
+    // Special variables passed by the caller (@outputs) have a known set
+    // of keys, so strict mode reports a missing one; loop variables (@index,
+    // @parent) live in scopes and are not checked
+    const checkKeys =
+      !allowUndefined &&
+      this.strictMode &&
+      rootKey.startsWith("@") &&
+      !this.scopes.some((scope) => scope.has(rootKey));
+
     // Key exists â€” even if value === undefined
     // That is allowed and should not throw.
     // Continue resolving nested keys.
@@ -495,6 +1241,15 @@ export class Interpreter {
 
       // Access property
       if (typeof current === "object" && !Array.isArray(current)) {
+        if (checkKeys && !(path[i] in current)) {
+          throw new MissingVariableError(
+            path.slice(0, i + 1).join("."),
+            position.line,
+            position.column,
+            Object.keys(current),
+            `Nothing is available in ${path.slice(0, i).join(".")} yet`
+          );
+        }
         current = (current as Record<string, TemplateValue>)[path[i]];
       } else if (Array.isArray(current)) {
         const index = parseInt(path[i]);
@@ -518,12 +1273,24 @@ export class Interpreter {
   }
 
   /**
-   * Get all variables (including loop context)
+   * Look up root name, innermost scope first, then template variables
+   */
+  private lookup(name: string): TemplateValue {
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      if (this.scopes[i].has(name)) return this.scopes[i].get(name);
+    }
+    return this.variables.get(name);
+  }
+
+  /**
+   * Get all variables visible at this point (inner scopes shadow outer ones)
    */
   private getAllVariables(): VariableMap {
     const combined = new Map(this.variables);
-    for (const [key, value] of this.loopContext.entries()) {
-      combined.set(key, value);
+    for (const scope of this.scopes) {
+      for (const [key, value] of scope.entries()) {
+        combined.set(key, value);
+      }
     }
     return combined;
   }
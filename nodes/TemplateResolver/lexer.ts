@@ -1,5 +1,6 @@
-import { Token, TokenType } from "./types";
+import { CompileOptions, Token, TokenType } from "./types";
 import { SyntaxError } from "./errors";
+import { splitTernary } from "./expressions";
 
 /**
  * Lexer: Converts template string into array of tokens with position tracking
@@ -10,17 +11,27 @@ import { SyntaxError } from "./errors";
  * - CASE: {{CASE}}, {{WHEN}}, {{DEFAULT}}, {{END_CASE}}
  * - Loops: {{FOR items AS item}}, {{END_FOR}}
  * - Tables: {{TABLE}}, {{HEADER}}, {{ROW}}, {{END_TABLE}}
+ * - Partials and inheritance: {{INCLUDE}}, {{EXTENDS}}, {{BLOCK}}, {{SUPER}}
+ * - Macros: {{MACRO name(params)}}, {{END_MACRO}}, {{CALL name(args)}}
+ * - Local variables: {{SET name = value}}, {{CAPTURE name}}, {{END_CAPTURE}}
  * - Lists: {{LIST}}, {{LIST_ITEM}}, {{END_LIST}}
  * - Ternary: {{condition ? "true" : "false"}}
  * - Comments: {{# comment #}}
+ * - Whitespace control: {{- IF x -}}, ${{- name -}}
  */
 export class Lexer {
   private pos = 0;
   private line = 1;
   private column = 1;
   private tokens: Token[] = [];
+  private trimBlocks: boolean;
 
-  constructor(private template: string) {}
+  constructor(
+    private template: string,
+    options?: CompileOptions
+  ) {
+    this.trimBlocks = options?.trimBlocks ?? false;
+  }
 
   /**
    * Validate that all blocks are properly closed
@@ -37,6 +48,9 @@ export class Lexer {
           TokenType.CASE,
           TokenType.TABLE,
           TokenType.LIST,
+          TokenType.BLOCK,
+          TokenType.MACRO,
+          TokenType.CAPTURE,
         ].includes(token.type)
       ) {
         stack.push({
@@ -62,6 +76,20 @@ export class Lexer {
         stack.pop();
       }
 
+      if (token.type === TokenType.EMPTY) {
+        if (
+          stack.length === 0 ||
+          stack[stack.length - 1].type !== TokenType.FOR
+        ) {
+          throw new SyntaxError(
+            `Unexpected {{EMPTY}} outside of {{FOR}}`,
+            token.line,
+            token.column,
+            "Place {{EMPTY}} between {{FOR}} and {{END_FOR}}"
+          );
+        }
+      }
+
       if (token.type === TokenType.END_FOR) {
         if (
           stack.length === 0 ||
@@ -107,6 +135,51 @@ export class Lexer {
         stack.pop();
       }
 
+      if (token.type === TokenType.END_BLOCK) {
+        if (
+          stack.length === 0 ||
+          stack[stack.length - 1].type !== TokenType.BLOCK
+        ) {
+          throw new SyntaxError(
+            `Unexpected {{END_BLOCK}} without matching {{BLOCK}}`,
+            token.line,
+            token.column,
+            "Check template structure"
+          );
+        }
+        stack.pop();
+      }
+
+      if (token.type === TokenType.END_MACRO) {
+        if (
+          stack.length === 0 ||
+          stack[stack.length - 1].type !== TokenType.MACRO
+        ) {
+          throw new SyntaxError(
+            `Unexpected {{END_MACRO}} without matching {{MACRO}}`,
+            token.line,
+            token.column,
+            "Check template structure"
+          );
+        }
+        stack.pop();
+      }
+
+      if (token.type === TokenType.END_CAPTURE) {
+        if (
+          stack.length === 0 ||
+          stack[stack.length - 1].type !== TokenType.CAPTURE
+        ) {
+          throw new SyntaxError(
+            `Unexpected {{END_CAPTURE}} without matching {{CAPTURE}}`,
+            token.line,
+            token.column,
+            "Check template structure"
+          );
+        }
+        stack.pop();
+      }
+
       if (token.type === TokenType.END_LIST) {
         if (
           stack.length === 0 ||
@@ -152,7 +225,7 @@ export class Lexer {
         this.peek(2) === "{"
       ) {
         this.scanVariable();
-      } else if (this.current() === "{" && this.peek() === "{") {
+      } else if (this.current() === "{" && this.peek(1) === "{") {
         this.scanTag();
       } else {
         this.scanText();
@@ -167,6 +240,12 @@ export class Lexer {
       column: this.column,
     });
 
+    // Apply whitespace control (standalone lines first, then trim markers)
+    if (this.trimBlocks) {
+      this.trimBlockLines();
+    }
+    this.applyTrimMarkers();
+
     // Validate blocks are properly closed
     this.validateBlocks();
 
@@ -182,16 +261,22 @@ export class Lexer {
     // Consume ${{
     this.advance(3);
 
+    // Check for trim marker: ${{- name}} (${{-price}} negates)
+    const trimBefore = this.scanOpeningTrimMarker(false);
+
     let content = "";
     while (this.pos < this.template.length) {
       if (this.peek() === "}" && this.peek(1) === "}") {
         // Found closing }}
         this.advance(2);
+        const { value, trimAfter } = this.stripTrimMarker(content.trim());
         this.tokens.push({
           type: TokenType.VARIABLE,
-          value: content.trim(),
+          value,
           line: startLine,
           column: startColumn,
+          trimBefore,
+          trimAfter,
         });
         return;
       }
@@ -218,28 +303,34 @@ export class Lexer {
     // Consume {{
     this.advance(2);
 
+    // Check for trim marker: {{- IF x}}, {{-# comment #}}
+    const trimBefore = this.scanOpeningTrimMarker(true);
+
     // Skip whitespace
     this.skipWhitespace();
 
     // Check for comment: {{# ... #}}
     if (this.peek() === "#") {
-      this.scanComment(startLine, startColumn);
+      this.scanComment(startLine, startColumn, trimBefore);
       return;
     }
 
     const content = this.scanUntilClosing();
-    const trimmed = content.trim();
+    const { value: trimmed, trimAfter } = this.stripTrimMarker(content.trim());
 
-    // Parse keyword
+    // Parse keyword (tags without a keyword may be inline ternaries)
     const keyword = this.extractKeyword(trimmed);
-    const tokenType = this.getTokenType(keyword);
+    let tokenType = this.getTokenType(keyword);
+    if (tokenType === null && splitTernary(trimmed) !== null) {
+      tokenType = TokenType.TERNARY;
+    }
 
     if (tokenType === null) {
       throw new SyntaxError(
         `Unknown template tag: {{${keyword}}}`,
         startLine,
         startColumn,
-        "Check syntax - valid tags: IF, CASE, FOR, TABLE, LIST, etc."
+        'Check syntax - valid tags: IF, CASE, FOR, TABLE, LIST, etc., or a ternary {{condition ? "yes" : "no"}}'
       );
     }
 
@@ -248,13 +339,180 @@ export class Lexer {
       value: trimmed,
       line: startLine,
       column: startColumn,
+      trimBefore,
+      trimAfter,
     });
   }
 
+  /**
+   * Consume opening trim marker: a "-" counts only when whitespace (or the
+   * "#" of a comment) follows, so a leading minus sign is left to the
+   * expression
+   */
+  private scanOpeningTrimMarker(comment: boolean): boolean {
+    const next = this.peek(1);
+    if (
+      this.peek() !== "-" ||
+      !(/\s/.test(next) || (comment && next === "#"))
+    ) {
+      return false;
+    }
+    this.advance();
+    return true;
+  }
+
+  /**
+   * Strip closing trim marker: "IF x -" → { value: "IF x", trimAfter: true }
+   */
+  private stripTrimMarker(content: string): {
+    value: string;
+    trimAfter: boolean;
+  } {
+    if (content.endsWith("-")) {
+      return { value: content.slice(0, -1).trim(), trimAfter: true };
+    }
+    return { value: content, trimAfter: false };
+  }
+
+  /**
+   * Strip whitespace next to tags marked with {{- or -}}
+   */
+  private applyTrimMarkers(): void {
+    for (let i = 0; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      const before = this.tokens[i - 1];
+      const after = this.tokens[i + 1];
+
+      if (token.trimBefore && before?.type === TokenType.TEXT) {
+        before.value = before.value.replace(/\s+$/, "");
+      }
+      if (token.trimAfter && after?.type === TokenType.TEXT) {
+        after.value = after.value.replace(/^\s+/, "");
+      }
+    }
+
+    this.removeEmptyText();
+  }
+
+  /**
+   * Drop the line of block tags that stand alone on it
+   *
+   * A run of block tags (separated only by spaces/tabs) is standalone when
+   * nothing but indentation precedes it on its line and nothing but a line
+   * break follows it. Its indentation and trailing line break are removed,
+   * so the tags leave no blank line in the output.
+   */
+  private trimBlockLines(): void {
+    const runs: Array<{ start: number; end: number }> = [];
+
+    // Decide on original text first - trimming one run must not hide the
+    // line break that makes the next run standalone
+    let i = 0;
+    while (i < this.tokens.length) {
+      if (!this.isBlockToken(this.tokens[i])) {
+        i++;
+        continue;
+      }
+
+      const start = i;
+      let end = i;
+      let j = i + 1;
+      while (j < this.tokens.length) {
+        const token = this.tokens[j];
+        if (this.isBlockToken(token)) {
+          end = j;
+        } else if (
+          !(
+            token.type === TokenType.TEXT &&
+            /^[ \t]*$/.test(token.value) &&
+            this.isBlockToken(this.tokens[j + 1])
+          )
+        ) {
+          break;
+        }
+        j++;
+      }
+
+      if (this.isStandalone(start, end)) {
+        runs.push({ start, end });
+      }
+      i = end + 1;
+    }
+
+    for (const { start, end } of runs) {
+      const before = this.tokens[start - 1];
+      const after = this.tokens[end + 1];
+
+      if (before?.type === TokenType.TEXT) {
+        before.value = before.value.replace(/[ \t]*$/, "");
+      }
+      for (let k = start + 1; k < end; k++) {
+        if (this.tokens[k].type === TokenType.TEXT) {
+          this.tokens[k].value = "";
+        }
+      }
+      if (after.type === TokenType.TEXT) {
+        after.value = after.value.replace(/^[ \t]*\n?/, "");
+      }
+    }
+
+    this.removeEmptyText();
+  }
+
+  /**
+   * Check if tokens[start..end] are alone on their line
+   */
+  private isStandalone(start: number, end: number): boolean {
+    const before = this.tokens[start - 1];
+    const after = this.tokens[end + 1];
+
+    const startsLine =
+      before === undefined ||
+      (before.type === TokenType.TEXT &&
+        (/\n[ \t]*$/.test(before.value) ||
+          (start === 1 && /^[ \t]*$/.test(before.value))));
+
+    const endsLine =
+      after.type === TokenType.EOF ||
+      (after.type === TokenType.TEXT &&
+        (/^[ \t]*\n/.test(after.value) ||
+          (/^[ \t]*$/.test(after.value) &&
+            this.tokens[end + 2]?.type === TokenType.EOF)));
+
+    return startsLine && endsLine;
+  }
+
+  /**
+   * Block tags produce no inline output of their own (text, variables,
+   * ternaries and EOF do)
+   */
+  private isBlockToken(token: Token | undefined): boolean {
+    return (
+      token !== undefined &&
+      token.type !== TokenType.TEXT &&
+      token.type !== TokenType.VARIABLE &&
+      token.type !== TokenType.TERNARY &&
+      token.type !== TokenType.EOF
+    );
+  }
+
+  /**
+   * Remove TEXT tokens emptied by whitespace control
+   */
+  private removeEmptyText(): void {
+    this.tokens = this.tokens.filter(
+      (token) => token.type !== TokenType.TEXT || token.value !== ""
+    );
+  }
+
   /**
    * Scan comment: {{# comment text #}}
    */
-  private scanComment(startLine: number, startColumn: number): void {
+  private scanComment(
+    startLine: number,
+    startColumn: number,
+    trimBefore: boolean
+  ): void {
     // Consume #
     this.advance();
 
@@ -268,6 +526,25 @@ export class Lexer {
           value: content,
           line: startLine,
           column: startColumn,
+          trimBefore,
+        });
+        return;
+      }
+      if (
+        this.peek() === "-" &&
+        this.peek(1) === "#" &&
+        this.peek(2) === "}" &&
+        this.peek(3) === "}"
+      ) {
+        // Found closing -#}} (trim marker)
+        this.advance(4);
+        this.tokens.push({
+          type: TokenType.COMMENT,
+          value: content,
+          line: startLine,
+          column: startColumn,
+          trimBefore,
+          trimAfter: true,
         });
         return;
       }
@@ -376,7 +653,19 @@ export class Lexer {
       END_WHEN: TokenType.END_WHEN,
       END_DEFAULT: TokenType.END_DEFAULT,
       END_CASE: TokenType.END_CASE,
+      INCLUDE: TokenType.INCLUDE,
+      EXTENDS: TokenType.EXTENDS,
+      BLOCK: TokenType.BLOCK,
+      END_BLOCK: TokenType.END_BLOCK,
+      SUPER: TokenType.SUPER,
+      MACRO: TokenType.MACRO,
+      END_MACRO: TokenType.END_MACRO,
+      CALL: TokenType.CALL,
+      SET: TokenType.SET,
+      CAPTURE: TokenType.CAPTURE,
+      END_CAPTURE: TokenType.END_CAPTURE,
       FOR: TokenType.FOR,
+      EMPTY: TokenType.EMPTY,
       END_FOR: TokenType.END_FOR,
       LIST: TokenType.LIST,
       LIST_ITEM: TokenType.LIST_ITEM,
@@ -16,9 +16,46 @@ import {
   TableHeaderNode,
   TableRowNode,
   CommentNode,
+  TernaryNode,
   FilterCall,
+  ExpressionNode,
+  ConditionalExpression,
+  PathExpression,
+  IncludeNode,
+  IncludeBinding,
+  ExtendsNode,
+  BlockNode,
+  SuperNode,
+  MacroNode,
+  MacroParam,
+  MacroCallNode,
+  CallExpression,
+  SetNode,
+  CaptureNode,
 } from "./types";
 import { SyntaxError } from "./errors";
+import { parseExpression } from "./expression-parser";
+import {
+  getFilter,
+  listFilters,
+  parseFilter,
+  splitOutsideQuotes,
+  validateFilter,
+} from "./filters";
+
+/**
+ * FOR loop modifier keywords
+ */
+type ForClause = "WHERE" | "SORT BY" | "LIMIT" | "OFFSET" | "REVERSE" | "ORDER";
+
+const FOR_CLAUSE_EXAMPLES: Record<ForClause, string> = {
+  WHERE: 'WHERE item.status == "open"',
+  "SORT BY": "SORT BY item.priority DESC",
+  LIMIT: "LIMIT 5",
+  OFFSET: "OFFSET 10",
+  REVERSE: "REVERSE",
+  ORDER: "ORDER alphabetical",
+};
 
 /**
  * Parser: Builds Abstract Syntax Tree from tokens
@@ -28,6 +65,21 @@ import { SyntaxError } from "./errors";
 export class Parser {
   private pos = 0;
 
+  /**
+   * Names of the BLOCKs being parsed, innermost last
+   */
+  private openBlocks: string[] = [];
+
+  /**
+   * Every BLOCK name defined so far (names are unique per template)
+   */
+  private blockNames: Set<string> = new Set();
+
+  /**
+   * Every MACRO name defined so far (names are unique per template)
+   */
+  private macroNames: Set<string> = new Set();
+
   constructor(private tokens: Token[]) {}
 
   /**
@@ -35,14 +87,39 @@ export class Parser {
    */
   parse(): ProgramNode {
     const body: ASTNode[] = [];
+    let extendsNode: ExtendsNode | null = null;
 
     while (!this.isAtEnd()) {
+      // EXTENDS and MACRO are only valid at the top level
+      if (this.check(TokenType.MACRO)) {
+        body.push(this.parseMacro());
+        continue;
+      }
+      if (this.check(TokenType.EXTENDS)) {
+        const node = this.parseExtends();
+        if (extendsNode) {
+          throw new SyntaxError(
+            "Only one {{EXTENDS}} is allowed per template",
+            node.line,
+            node.column,
+            `Remove the second {{EXTENDS "${node.name}"}}`
+          );
+        }
+        extendsNode = node;
+        body.push(node);
+        continue;
+      }
+
       const node = this.parseNode();
       if (node) {
         body.push(node);
       }
     }
 
+    if (extendsNode) {
+      this.validateChildTemplate(body);
+    }
+
     return {
       type: "Program",
       body,
@@ -62,12 +139,34 @@ export class Parser {
         return this.parseText();
       case TokenType.VARIABLE:
         return this.parseVariable();
+      case TokenType.TERNARY:
+        return this.parseTernary();
       case TokenType.IF:
         return this.parseIf();
       case TokenType.CASE:
         return this.parseCase();
       case TokenType.FOR:
         return this.parseFor();
+      case TokenType.INCLUDE:
+        return this.parseInclude();
+      case TokenType.BLOCK:
+        return this.parseBlock();
+      case TokenType.SUPER:
+        return this.parseSuper();
+      case TokenType.CALL:
+        return this.parseMacroCall();
+      case TokenType.SET:
+        return this.parseSet();
+      case TokenType.CAPTURE:
+        return this.parseCapture();
+      case TokenType.EXTENDS:
+      case TokenType.MACRO:
+        throw new SyntaxError(
+          `{{${token.type}}} must be at the top level of a template`,
+          token.line,
+          token.column,
+          `Move {{${token.type}}} out of the enclosing block`
+        );
       case TokenType.LIST:
         return this.parseList();
       case TokenType.TABLE:
@@ -104,15 +203,16 @@ export class Parser {
   }
 
   /**
-   * Parse variable: ${{name}}, ${{user.name | filter}}
+   * Parse variable: ${{name}}, ${{user.name | filter}}, ${{vip ? "Gold" : "Standard"}}
    */
   private parseVariable(): VariableNode {
     const token = this.consume(TokenType.VARIABLE);
-    const parts = this.parseVariableExpression(token.value);
+    const parts = this.parseVariableExpression(token);
 
     return {
       type: "Variable",
       path: parts.path,
+      expression: parts.expression,
       defaultValue: parts.defaultValue,
       filters: parts.filters,
       line: token.line,
@@ -123,59 +223,146 @@ export class Parser {
   /**
    * Parse variable expression with filters and default operator
    * Examples:
-   * - "name" â†’ { path: ["name"] }
-   * - "user.name" â†’ { path: ["user", "name"] }
-   * - 'name ?? "default"' â†’ { path: ["name"], defaultValue: "default" }
-   * - "text | trim | head=10" â†’ { path: ["text"], filters: [...] }
+   * - "name" → { path: ["name"] }
+   * - "user.name" → { path: ["user", "name"] }
+   * - 'name ?? "default"' → { path: ["name"], defaultValue: "default" }
+   * - "text | trim | head=10" → { path: ["text"], filters: [...] }
+   * - "price * qty" → { path: [], expression: Binary(*) }
    */
-  private parseVariableExpression(expr: string): {
+  private parseVariableExpression(
+    token: Token,
+    source = token.value,
+    openerLength = 3
+  ): {
     path: string[];
+    expression?: ExpressionNode;
     defaultValue?: string;
     filters?: FilterCall[];
   } {
-    // --- 1. Split filters FIRST ---
-    const parts = expr.split("|").map((p) => p.trim());
-    const core = parts[0];
-    const filterExprs = parts.slice(1);
+    // --- 1. Split filters FIRST (pipes inside quotes stay put) ---
+    const [core, ...filterExprs] = splitOutsideQuotes(source, "|");
 
     // --- 2. Extract default operator (??) ---
-    let pathExpr = core;
+    const [pathPart, ...defaultParts] = splitOutsideQuotes(core.text, "??");
+    const pathExpr = pathPart.text.trim();
     let defaultValue: string | undefined = undefined;
 
-    const defaultIdx = core.indexOf("??");
-    if (defaultIdx !== -1) {
-      pathExpr = core.slice(0, defaultIdx).trim();
-      defaultValue = core
-        .slice(defaultIdx + 2)
+    if (defaultParts.length > 0) {
+      defaultValue = core.text
+        .slice(defaultParts[0].offset)
         .trim()
         .replace(/^["']|["']$/g, "");
     }
 
-    // --- 3. Parse path ---
-    const path = pathExpr.split(".").map((p) => p.trim());
-
-    // --- 4. Parse filters ---
-    const filters: FilterCall[] =
-      filterExprs.length > 0
-        ? filterExprs.map((f) => ({
-            name: f,
-            params: {},
-          }))
-        : [];
+    // --- 3. Parse path (or expression: math, ternary, literal) ---
+    const parsed = this.parseExpressionIn(token, pathExpr, openerLength);
+    // A hyphenated name keeps its expression for the subtraction fallback
+    const path = parsed.type === "Path" ? (parsed as PathExpression).path : [];
+    const expression =
+      parsed.type === "Path" && !(parsed as PathExpression).difference
+        ? undefined
+        : parsed;
+
+    // --- 4. Parse and validate filters ---
+    const base = Math.max(token.value.indexOf(source), 0);
+    const filters = filterExprs.map((segment) => {
+      const leading = segment.text.length - segment.text.trimStart().length;
+      return this.parseFilterCall(
+        token,
+        segment.text,
+        token.column + openerLength + base + segment.offset + leading
+      );
+    });
 
     return {
       path,
+      expression,
       defaultValue,
       filters: filters.length > 0 ? filters : undefined,
     };
   }
 
+  /**
+   * Parse one filter of a chain and check it against the filter registry
+   */
+  private parseFilterCall(
+    token: Token,
+    source: string,
+    column: number
+  ): FilterCall {
+    const filter = this.tryFilter(() => parseFilter(source), token, column);
+
+    if (!getFilter(filter.name)) {
+      throw new SyntaxError(
+        filter.name ? `Unknown filter: ${filter.name}` : "Empty filter after |",
+        token.line,
+        column,
+        `Available filters: ${listFilters().join(", ")}`
+      );
+    }
+
+    this.tryFilter(() => validateFilter(filter), token, column);
+    return filter;
+  }
+
+  /**
+   * Run a filter parse/validate step, reporting its errors as syntax errors
+   */
+  private tryFilter<T>(step: () => T, token: Token, column: number): T {
+    try {
+      return step();
+    } catch (error) {
+      throw this.filterError(error, token, column);
+    }
+  }
+
+  /**
+   * Report a filter parse/validation error at the filter's position
+   */
+  private filterError(error: unknown, token: Token, column: number): unknown {
+    if (!(error instanceof Error)) return error;
+    return new SyntaxError(
+      error.message,
+      token.line,
+      column,
+      'Filter syntax: name, name=value or name:key="value",other="value"'
+    );
+  }
+
+  /**
+   * Parse inline ternary tag: {{is_vip ? "Gold" : "Standard"}}
+   */
+  private parseTernary(): TernaryNode {
+    const token = this.consume(TokenType.TERNARY);
+    const expression = this.parseExpressionIn(token, token.value);
+
+    if (expression.type !== "Conditional") {
+      throw new SyntaxError(
+        `Invalid ternary expression: ${token.value}`,
+        token.line,
+        token.column,
+        'Expected: {{condition ? "yes" : "no"}}'
+      );
+    }
+
+    const { test, consequent, alternate } = expression as ConditionalExpression;
+
+    return {
+      type: "Ternary",
+      condition: test,
+      trueValue: consequent,
+      falseValue: alternate,
+      line: token.line,
+      column: token.column,
+    };
+  }
+
   /**
    * Parse IF block: {{IF condition}}...{{ELSEIF}}...{{ELSE}}...{{END_IF}}
    */
   private parseIf(): IfNode {
     const token = this.consume(TokenType.IF);
-    const condition = this.extractCondition(token.value);
+    const condition = this.extractCondition(token);
 
     const consequent: ASTNode[] = [];
     let alternate: ASTNode[] | IfNode | null = null;
@@ -202,7 +389,7 @@ export class Parser {
     if (this.check(TokenType.ELSEIF)) {
       // ELSEIF becomes nested IfNode
       const elseIfToken = this.consume(TokenType.ELSEIF);
-      const elseIfCondition = this.extractCondition(elseIfToken.value);
+      const elseIfCondition = this.extractCondition(elseIfToken);
 
       // Create nested IF node
       const nestedIf: IfNode = {
@@ -297,7 +484,7 @@ export class Parser {
    */
   private parseElseIf(): IfNode {
     const token = this.consume(TokenType.ELSEIF);
-    const condition = this.extractCondition(token.value);
+    const condition = this.extractCondition(token);
 
     const consequent: ASTNode[] = [];
 
@@ -354,7 +541,7 @@ export class Parser {
    */
   private parseCase(): CaseNode {
     const token = this.consume(TokenType.CASE);
-    const expression = this.extractExpression(token.value);
+    const expression = this.extractExpression(token);
 
     const cases: WhenNode[] = [];
     let defaultNode: DefaultNode | null = null;
@@ -489,10 +676,48 @@ export class Parser {
    */
   private parseFor(): ForNode {
     const token = this.consume(TokenType.FOR);
-    const { iterable, itemName } = this.parseForExpression(token.value);
+    const header = this.parseForExpression(token);
+
+    const body = this.parseForBody(token);
 
+    // Optional {{EMPTY}} / {{ELSE}} branch
+    let empty: ASTNode[] | undefined;
+    if (this.check(TokenType.EMPTY) || this.check(TokenType.ELSE)) {
+      this.advance();
+      empty = this.parseForBody(token);
+      if (this.check(TokenType.EMPTY) || this.check(TokenType.ELSE)) {
+        const extra = this.current();
+        throw new SyntaxError(
+          `Unexpected {{${extra.value}}}: {{FOR}} allows only one {{EMPTY}} / {{ELSE}} branch`,
+          extra.line,
+          extra.column,
+          "Remove the extra branch"
+        );
+      }
+    }
+
+    this.consume(TokenType.END_FOR);
+
+    return {
+      type: "For",
+      ...header,
+      body,
+      empty,
+      line: token.line,
+      column: token.column,
+    };
+  }
+
+  /**
+   * Parse FOR section up to {{EMPTY}}, {{ELSE}} or {{END_FOR}}
+   */
+  private parseForBody(token: Token): ASTNode[] {
     const body: ASTNode[] = [];
-    while (!this.check(TokenType.END_FOR)) {
+    while (
+      !this.check(TokenType.END_FOR) &&
+      !this.check(TokenType.EMPTY) &&
+      !this.check(TokenType.ELSE)
+    ) {
       if (this.isAtEnd()) {
         throw new SyntaxError(
           "Unclosed {{FOR}} block",
@@ -504,13 +729,363 @@ export class Parser {
       const node = this.parseNode();
       if (node) body.push(node);
     }
+    return body;
+  }
 
-    this.consume(TokenType.END_FOR);
+  /**
+   * Parse FOR expression:
+   * - "FOR items AS item" → { iterable: ["items"], itemName: "item" }
+   * - "FOR config AS key, value ORDER alphabetical"
+   *   → { iterable: ["config"], keyName: "key", itemName: "value", keyOrder: "alphabetical" }
+   * - 'FOR tickets AS t WHERE t.status == "open" SORT BY t.priority DESC LIMIT 5'
+   * - 'FOR orders | where=paid | sort_by=total AS o' → filters applied to the iterable
+   */
+  private parseForExpression(
+    token: Token
+  ): Omit<ForNode, "type" | "body" | "line" | "column"> {
+    const match = token.value.match(
+      /^FOR\s+(.+?)\s+AS\s+(\w+)(?:\s*,\s*(\w+))?(?=\s|$)([\s\S]*)$/i
+    );
+    if (!match) {
+      throw new SyntaxError(
+        `Invalid FOR syntax: ${token.value}`,
+        token.line,
+        token.column,
+        "Expected: {{FOR items AS item}} or {{FOR object AS key, value}}"
+      );
+    }
+
+    const [source, ...filterExprs] = splitOutsideQuotes(match[1], "|");
+    const iterablePath = source.text
+      .trim()
+      .split(".")
+      .map((p) => p.trim());
+
+    // Two names: first binds the key, second the value
+    const header: Omit<ForNode, "type" | "body" | "line" | "column"> = match[3]
+      ? { iterable: iterablePath, keyName: match[2], itemName: match[3] }
+      : { iterable: iterablePath, itemName: match[2] };
+
+    if (filterExprs.length > 0) {
+      const base = token.value.indexOf(match[1]);
+      header.filters = filterExprs.map((segment) => {
+        const leading = segment.text.length - segment.text.trimStart().length;
+        return this.parseFilterCall(
+          token,
+          segment.text,
+          token.column + 2 + base + segment.offset + leading
+        );
+      });
+    }
+
+    for (const clause of this.splitForClauses(match[4], token)) {
+      const { keyword, body } = clause;
+
+      if (keyword === "REVERSE") {
+        if (body) {
+          throw new SyntaxError(
+            `Unexpected "${body}" after REVERSE`,
+            token.line,
+            token.column,
+            "REVERSE takes no arguments"
+          );
+        }
+        header.reverse = true;
+        continue;
+      }
+
+      if (!body) {
+        throw new SyntaxError(
+          `Missing value after ${keyword} in {{FOR}}`,
+          token.line,
+          token.column,
+          `Example: {{FOR items AS item ${FOR_CLAUSE_EXAMPLES[keyword]}}}`
+        );
+      }
+
+      switch (keyword) {
+        case "ORDER": {
+          const order = body.toLowerCase();
+          if (order !== "insertion" && order !== "alphabetical") {
+            throw new SyntaxError(
+              `Invalid FOR key order: ${body}`,
+              token.line,
+              token.column,
+              "Use ORDER insertion or ORDER alphabetical"
+            );
+          }
+          header.keyOrder = order;
+          break;
+        }
+        case "WHERE":
+          header.where = this.parseExpressionIn(token, body);
+          break;
+        case "SORT BY":
+          header.sortBy = this.splitTopLevel(body, ",").map((part) => {
+            const direction = part.match(/\s+(ASC|DESC)$/i);
+            const expression = direction
+              ? part.slice(0, direction.index).trim()
+              : part;
+            return {
+              expression: this.parseExpressionIn(token, expression),
+              descending: direction?.[1].toUpperCase() === "DESC",
+            };
+          });
+          break;
+        case "LIMIT":
+          header.limit = this.parseExpressionIn(token, body);
+          break;
+        case "OFFSET":
+          header.offset = this.parseExpressionIn(token, body);
+          break;
+      }
+    }
+
+    return header;
+  }
+
+  /**
+   * Split FOR modifiers at top-level clause keywords (outside quotes and
+   * parentheses): ' WHERE a == "LIMIT" LIMIT 5' →
+   * [{ keyword: "WHERE", body: 'a == "LIMIT"' }, { keyword: "LIMIT", body: "5" }]
+   */
+  private splitForClauses(
+    text: string,
+    token: Token
+  ): { keyword: ForClause; body: string }[] {
+    const found: { keyword: ForClause; start: number; end: number }[] = [];
+    let depth = 0;
+    let quoteChar: string | null = null;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (quoteChar) {
+        if (char === "\\") i++;
+        else if (char === quoteChar) quoteChar = null;
+        continue;
+      }
+
+      if (char === '"' || char === "'") {
+        quoteChar = char;
+      } else if (char === "(") {
+        depth++;
+      } else if (char === ")") {
+        depth--;
+      } else if (depth === 0 && (i === 0 || /\s/.test(text[i - 1]))) {
+        const keyword = text
+          .slice(i)
+          .match(/^(WHERE|SORT\s+BY|LIMIT|OFFSET|REVERSE|ORDER)(?=\s|$)/);
+        if (keyword) {
+          const name = keyword[1].replace(/\s+/, " ") as ForClause;
+          if (found.some((f) => f.keyword === name)) {
+            throw new SyntaxError(
+              `Duplicate ${name} in {{FOR}}`,
+              token.line,
+              token.column,
+              `Use ${name} once per loop`
+            );
+          }
+          found.push({ keyword: name, start: i, end: i + keyword[0].length });
+          i += keyword[0].length - 1;
+        }
+      }
+    }
+
+    const leading = text.slice(0, found[0]?.start ?? text.length).trim();
+    if (leading) {
+      throw new SyntaxError(
+        `Unexpected "${leading}" in {{FOR}}`,
+        token.line,
+        token.column,
+        "Expected WHERE, SORT BY, LIMIT, OFFSET, REVERSE or ORDER"
+      );
+    }
+
+    return found.map((clause, i) => ({
+      keyword: clause.keyword,
+      body: text.slice(clause.end, found[i + 1]?.start ?? text.length).trim(),
+    }));
+  }
+
+  /**
+   * Split text on a separator outside quotes and parentheses
+   */
+  private splitTopLevel(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let quoteChar: string | null = null;
+    let start = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (quoteChar) {
+        if (char === "\\") i++;
+        else if (char === quoteChar) quoteChar = null;
+        continue;
+      }
+
+      if (char === '"' || char === "'") quoteChar = char;
+      else if (char === "(") depth++;
+      else if (char === ")") depth--;
+      else if (depth === 0 && char === separator) {
+        parts.push(text.slice(start, i).trim());
+        start = i + 1;
+      }
+    }
+
+    parts.push(text.slice(start).trim());
+    return parts;
+  }
+
+  /**
+   * Parse INCLUDE: {{INCLUDE "safety/base" WITH tone="formal", user=customer}}
+   */
+  private parseInclude(): IncludeNode {
+    const token = this.consume(TokenType.INCLUDE);
+    const match = token.value.match(
+      /^INCLUDE\s+(["'])(.+?)\1(?:\s+WITH\s+([\s\S]+))?$/i
+    );
+    if (!match) {
+      throw new SyntaxError(
+        `Invalid INCLUDE syntax: ${token.value}`,
+        token.line,
+        token.column,
+        'Expected: {{INCLUDE "partial/name"}} or {{INCLUDE "name" WITH key=value}}'
+      );
+    }
+
+    const bindings: IncludeBinding[] = match[3]
+      ? this.splitTopLevel(match[3], ",").map((binding) => {
+          const parts = binding.match(/^(\w+)\s*=\s*([\s\S]+)$/);
+          if (!parts) {
+            throw new SyntaxError(
+              `Invalid INCLUDE binding: ${binding || "(empty)"}`,
+              token.line,
+              token.column,
+              'Use WITH key=value, e.g. WITH tone="formal", user=customer'
+            );
+          }
+          return {
+            name: parts[1],
+            value: this.parseExpressionIn(token, parts[2]),
+          };
+        })
+      : [];
 
     return {
-      type: "For",
-      iterable,
-      itemName,
+      type: "Include",
+      name: match[2],
+      bindings,
+      line: token.line,
+      column: token.column,
+    };
+  }
+
+  /**
+   * Parse EXTENDS: {{EXTENDS "layouts/base"}}
+   */
+  private parseExtends(): ExtendsNode {
+    const token = this.consume(TokenType.EXTENDS);
+    const match = token.value.match(/^EXTENDS\s+(["'])(.+?)\1$/i);
+    if (!match) {
+      throw new SyntaxError(
+        `Invalid EXTENDS syntax: ${token.value}`,
+        token.line,
+        token.column,
+        'Expected: {{EXTENDS "template/name"}}'
+      );
+    }
+
+    return {
+      type: "Extends",
+      name: match[2],
+      line: token.line,
+      column: token.column,
+    };
+  }
+
+  /**
+   * A child template only contributes its blocks, so anything else at the
+   * top level would silently disappear
+   */
+  private validateChildTemplate(body: ASTNode[]): void {
+    for (const node of body) {
+      const allowed =
+        node.type === "Extends" ||
+        node.type === "Block" ||
+        node.type === "Macro" ||
+        node.type === "Comment" ||
+        (node.type === "Text" && (node as TextNode).content.trim() === "");
+
+      if (!allowed) {
+        throw new SyntaxError(
+          "Content outside {{BLOCK}} in a template that uses {{EXTENDS}}",
+          node.line,
+          node.column,
+          "Move it into a {{BLOCK}} - a child template only renders through the blocks it overrides"
+        );
+      }
+    }
+  }
+
+  /**
+   * Parse BLOCK: {{BLOCK task}}...{{END_BLOCK}} (or {{END_BLOCK task}})
+   */
+  private parseBlock(): BlockNode {
+    const token = this.consume(TokenType.BLOCK);
+    const match = token.value.match(/^BLOCK\s+(\w+)$/i);
+    if (!match) {
+      throw new SyntaxError(
+        `Invalid BLOCK syntax: ${token.value}`,
+        token.line,
+        token.column,
+        "Expected: {{BLOCK name}}...{{END_BLOCK}}"
+      );
+    }
+
+    const name = match[1];
+    if (this.blockNames.has(name)) {
+      throw new SyntaxError(
+        `Duplicate {{BLOCK ${name}}}`,
+        token.line,
+        token.column,
+        "Block names must be unique within a template"
+      );
+    }
+    this.blockNames.add(name);
+
+    this.openBlocks.push(name);
+    const body: ASTNode[] = [];
+    while (!this.check(TokenType.END_BLOCK)) {
+      if (this.isAtEnd()) {
+        throw new SyntaxError(
+          "Unclosed {{BLOCK}} block",
+          token.line,
+          token.column,
+          "Add {{END_BLOCK}}"
+        );
+      }
+      const node = this.parseNode();
+      if (node) body.push(node);
+    }
+    this.openBlocks.pop();
+
+    const end = this.consume(TokenType.END_BLOCK);
+    const endName = end.value.match(/^END_BLOCK(?:\s+(\w+))?$/);
+    if (!endName || (endName[1] !== undefined && endName[1] !== name)) {
+      throw new SyntaxError(
+        `Mismatched {{${end.value}}} for {{BLOCK ${name}}}`,
+        end.line,
+        end.column,
+        `Close with {{END_BLOCK}} or {{END_BLOCK ${name}}}`
+      );
+    }
+
+    return {
+      type: "Block",
+      name,
       body,
       line: token.line,
       column: token.column,
@@ -518,29 +1093,230 @@ export class Parser {
   }
 
   /**
-   * Parse FOR expression: "FOR items AS item" â†’ { iterable: ["items"], itemName: "item" }
+   * Parse SUPER: {{SUPER}} inside a BLOCK
    */
-  private parseForExpression(expr: string): {
-    iterable: string[];
-    itemName: string;
-  } {
-    const match = expr.match(/FOR\s+(.+?)\s+AS\s+(\w+)/i);
+  private parseSuper(): SuperNode {
+    const token = this.consume(TokenType.SUPER);
+    if (token.value !== "SUPER") {
+      throw new SyntaxError(
+        `Invalid SUPER syntax: ${token.value}`,
+        token.line,
+        token.column,
+        "Expected: {{SUPER}}"
+      );
+    }
+
+    const block = this.openBlocks[this.openBlocks.length - 1];
+    if (block === undefined) {
+      throw new SyntaxError(
+        "{{SUPER}} outside of {{BLOCK}}",
+        token.line,
+        token.column,
+        "Use {{SUPER}} inside a {{BLOCK}} to render the parent template's version of that block"
+      );
+    }
+
+    return {
+      type: "Super",
+      block,
+      line: token.line,
+      column: token.column,
+    };
+  }
+
+  /**
+   * Parse MACRO: {{MACRO card(c, show_price=true)}}...{{END_MACRO}}
+   */
+  private parseMacro(): MacroNode {
+    const token = this.consume(TokenType.MACRO);
+    const match = token.value.match(/^MACRO\s+(\w+)\s*\(([\s\S]*)\)$/);
     if (!match) {
       throw new SyntaxError(
-        `Invalid FOR syntax: ${expr}`,
-        this.current().line,
-        this.current().column,
-        "Expected: {{FOR items AS item}}"
+        `Invalid MACRO syntax: ${token.value}`,
+        token.line,
+        token.column,
+        "Expected: {{MACRO name(param, other=default)}}...{{END_MACRO}}"
       );
     }
 
-    const iterablePath = match[1]
-      .trim()
-      .split(".")
-      .map((p) => p.trim());
-    const itemName = match[2].trim();
+    const name = match[1];
+    if (this.macroNames.has(name)) {
+      throw new SyntaxError(
+        `Duplicate {{MACRO ${name}}}`,
+        token.line,
+        token.column,
+        "Macro names must be unique within a template"
+      );
+    }
+    this.macroNames.add(name);
+
+    const params = this.parseMacroParams(token, match[2]);
+
+    const body: ASTNode[] = [];
+    while (!this.check(TokenType.END_MACRO)) {
+      if (this.isAtEnd()) {
+        throw new SyntaxError(
+          "Unclosed {{MACRO}} block",
+          token.line,
+          token.column,
+          "Add {{END_MACRO}}"
+        );
+      }
+      const node = this.parseNode();
+      if (node) body.push(node);
+    }
+    this.consume(TokenType.END_MACRO);
 
-    return { iterable: iterablePath, itemName };
+    return {
+      type: "Macro",
+      name,
+      params,
+      body,
+      line: token.line,
+      column: token.column,
+    };
+  }
+
+  /**
+   * Parse MACRO parameter list: "c, show_price=true"
+   */
+  private parseMacroParams(token: Token, text: string): MacroParam[] {
+    if (!text.trim()) return [];
+
+    const params: MacroParam[] = [];
+    for (const param of this.splitTopLevel(text, ",")) {
+      const parts = param.match(/^(\w+)(?:\s*=\s*([\s\S]+))?$/);
+      if (!parts) {
+        throw new SyntaxError(
+          `Invalid MACRO parameter: ${param || "(empty)"}`,
+          token.line,
+          token.column,
+          "Use name or name=default, e.g. {{MACRO card(c, show_price=true)}}"
+        );
+      }
+
+      const [, name, defaultText] = parts;
+      if (params.some((p) => p.name === name)) {
+        throw new SyntaxError(
+          `Duplicate MACRO parameter: ${name}`,
+          token.line,
+          token.column,
+          "Parameter names must be unique"
+        );
+      }
+      if (defaultText === undefined && params.some((p) => p.defaultValue)) {
+        throw new SyntaxError(
+          `MACRO parameter "${name}" without a default follows a parameter with a default`,
+          token.line,
+          token.column,
+          "Put parameters with defaults last"
+        );
+      }
+
+      params.push({
+        name,
+        defaultValue:
+          defaultText === undefined
+            ? undefined
+            : this.parseExpressionIn(token, defaultText),
+      });
+    }
+    return params;
+  }
+
+  /**
+   * Parse CALL: {{CALL card(customer, show_price=false)}}
+   */
+  private parseMacroCall(): MacroCallNode {
+    const token = this.consume(TokenType.CALL);
+    const source = token.value.replace(/^CALL\b/, "").trim();
+    const call = source ? this.parseExpressionIn(token, source) : null;
+
+    if (call?.type !== "Call") {
+      throw new SyntaxError(
+        `Invalid CALL syntax: ${token.value}`,
+        token.line,
+        token.column,
+        "Expected: {{CALL name(arguments)}}"
+      );
+    }
+
+    return {
+      type: "MacroCall",
+      call: call as CallExpression,
+      line: token.line,
+      column: token.column,
+    };
+  }
+
+  /**
+   * Parse SET: {{SET total = price * qty}}, {{SET tags_text = tags | join}}
+   */
+  private parseSet(): SetNode {
+    const token = this.consume(TokenType.SET);
+    const match = token.value.match(/^SET\s+(\w+)\s*=(?!=)\s*([\s\S]+)$/);
+    if (!match) {
+      throw new SyntaxError(
+        `Invalid SET syntax: ${token.value}`,
+        token.line,
+        token.column,
+        "Expected: {{SET name = expression}}"
+      );
+    }
+
+    const parts = this.parseVariableExpression(token, match[2], 2);
+
+    return {
+      type: "Set",
+      name: match[1],
+      value: {
+        type: "Variable",
+        ...parts,
+        line: token.line,
+        column: token.column,
+      },
+      line: token.line,
+      column: token.column,
+    };
+  }
+
+  /**
+   * Parse CAPTURE: {{CAPTURE summary}}...{{END_CAPTURE}}
+   */
+  private parseCapture(): CaptureNode {
+    const token = this.consume(TokenType.CAPTURE);
+    const match = token.value.match(/^CAPTURE\s+(\w+)$/);
+    if (!match) {
+      throw new SyntaxError(
+        `Invalid CAPTURE syntax: ${token.value}`,
+        token.line,
+        token.column,
+        "Expected: {{CAPTURE name}}...{{END_CAPTURE}}"
+      );
+    }
+
+    const body: ASTNode[] = [];
+    while (!this.check(TokenType.END_CAPTURE)) {
+      if (this.isAtEnd()) {
+        throw new SyntaxError(
+          "Unclosed {{CAPTURE}} block",
+          token.line,
+          token.column,
+          "Add {{END_CAPTURE}}"
+        );
+      }
+      const node = this.parseNode();
+      if (node) body.push(node);
+    }
+    this.consume(TokenType.END_CAPTURE);
+
+    return {
+      type: "Capture",
+      name: match[1],
+      body,
+      line: token.line,
+      column: token.column,
+    };
   }
 
   /**
@@ -602,7 +1378,7 @@ export class Parser {
     const token = this.consume(TokenType.LIST_ITEM);
 
     // Parse optional condition and fallback
-    const { condition, fallback } = this.parseListItemAttributes(token.value);
+    const { condition, fallback } = this.parseListItemAttributes(token);
 
     const content: ASTNode[] = [];
     while (!this.check(TokenType.END_LIST_ITEM)) {
@@ -638,11 +1414,11 @@ export class Parser {
   /**
    * Parse LIST_ITEM attributes: {{LIST_ITEM condition | fallback="text"}}
    */
-  private parseListItemAttributes(expr: string): {
-    condition?: string;
+  private parseListItemAttributes(token: Token): {
+    condition?: ExpressionNode;
     fallback?: string;
   } {
-    const afterKeyword = expr.replace(/^LIST_ITEM\s*/, "").trim();
+    const afterKeyword = token.value.replace(/^LIST_ITEM\s*/, "").trim();
     if (!afterKeyword) return {};
 
     const parts = afterKeyword.split("|");
@@ -650,7 +1426,12 @@ export class Parser {
     const fallbackMatch = parts[1]?.match(/fallback\s*=\s*["'](.+?)["']/);
     const fallback = fallbackMatch?.[1];
 
-    return { condition: condition || undefined, fallback };
+    return {
+      condition: condition
+        ? this.parseExpressionIn(token, condition)
+        : undefined,
+      fallback,
+    };
   }
 
   /**
@@ -863,17 +1644,52 @@ export class Parser {
   }
 
   /**
-   * Extract condition from IF or ELSEIF token: "IF show" -> "show", "ELSEIF b" -> "b"
+   * Parse condition from IF or ELSEIF token: "IF show" -> show, "ELSEIF b" -> b
    */
-  private extractCondition(expr: string): string {
-    return expr.replace(/^(ELSE)?IF\s+/i, "").trim();
+  private extractCondition(token: Token): ExpressionNode {
+    const condition = token.value.replace(/^(ELSE)?IF\b/i, "").trim();
+    if (!condition) {
+      throw new SyntaxError(
+        `Missing condition in {{${token.value}}}`,
+        token.line,
+        token.column,
+        "Expected: {{IF condition}}"
+      );
+    }
+    return this.parseExpressionIn(token, condition);
+  }
+
+  /**
+   * Parse expression from CASE token: "CASE status" → status
+   */
+  private extractExpression(token: Token): ExpressionNode {
+    const expression = token.value.replace(/^CASE\b/i, "").trim();
+    if (!expression) {
+      throw new SyntaxError(
+        "Missing expression in {{CASE}}",
+        token.line,
+        token.column,
+        "Expected: {{CASE status}}"
+      );
+    }
+    return this.parseExpressionIn(token, expression);
   }
 
   /**
-   * Extract expression from CASE token: "CASE status" â†’ "status"
+   * Parse expression text found inside a tag, reporting errors at the
+   * expression's position in the template
    */
-  private extractExpression(expr: string): string {
-    return expr.replace(/^CASE\s+/i, "").trim();
+  private parseExpressionIn(
+    token: Token,
+    source: string,
+    openerLength = 2
+  ): ExpressionNode {
+    const offset = Math.max(token.value.indexOf(source), 0);
+    return parseExpression(
+      source,
+      token.line,
+      token.column + openerLength + offset
+    );
   }
 
   /**
@@ -0,0 +1,68 @@
+// Partials directories are read from local disk (self-hosted n8n only)
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports
+import { existsSync, readFileSync, statSync } from "fs";
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports
+import { isAbsolute, relative, resolve } from "path";
+import { PartialLoader } from "./types";
+
+/**
+ * File extension for partials stored on disk
+ */
+export const PARTIAL_EXTENSION = ".tpl";
+
+/**
+ * Load partials from an in-memory map: { "safety/base": "..." }
+ */
+export function createMapPartialLoader(
+  partials: Record<string, string> | Map<string, string>
+): PartialLoader {
+  const map =
+    partials instanceof Map ? partials : new Map(Object.entries(partials));
+  return (name) => map.get(name) ?? null;
+}
+
+/**
+ * Load partials from a directory of .tpl files
+ *
+ * "safety/base" → <directory>/safety/base.tpl. Names that resolve outside
+ * the directory (../secrets) are treated as missing. Each name is read from
+ * disk once per loader; later lookups (every include of every item) reuse
+ * the result, so create a new loader to pick up changed files.
+ */
+export function createDirectoryPartialLoader(directory: string): PartialLoader {
+  const root = resolve(directory);
+  const loaded = new Map<string, string | null>();
+
+  const read = (name: string): string | null => {
+    const fileName = name.endsWith(PARTIAL_EXTENSION)
+      ? name
+      : `${name}${PARTIAL_EXTENSION}`;
+    const filePath = resolve(root, fileName);
+
+    const rel = relative(root, filePath);
+    if (!rel || rel.startsWith("..") || isAbsolute(rel)) return null;
+
+    if (!existsSync(filePath) || !statSync(filePath).isFile()) return null;
+    return readFileSync(filePath, "utf8");
+  };
+
+  return (name) => {
+    if (!loaded.has(name)) loaded.set(name, read(name));
+    return loaded.get(name) ?? null;
+  };
+}
+
+/**
+ * Try loaders in order, returning the first partial found
+ */
+export function combinePartialLoaders(
+  ...loaders: (PartialLoader | undefined)[]
+): PartialLoader {
+  return (name) => {
+    for (const loader of loaders) {
+      const source = loader?.(name);
+      if (source != null) return source;
+    }
+    return null;
+  };
+}
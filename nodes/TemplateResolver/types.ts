@@ -16,6 +16,17 @@ export type TemplateValue =
  */
 export type VariableMap = Map<string, TemplateValue>;
 
+/**
+ * Declared type of a node variable mapping (auto: the value as n8n passes it)
+ */
+export type MappingType =
+  | "auto"
+  | "string"
+  | "number"
+  | "boolean"
+  | "json"
+  | "array";
+
 /**
  * Filter call structure
  */
@@ -40,7 +51,19 @@ export enum TokenType {
   DEFAULT = "DEFAULT",
   END_DEFAULT = "END_DEFAULT",
   END_CASE = "END_CASE",
+  INCLUDE = "INCLUDE",
+  EXTENDS = "EXTENDS",
+  BLOCK = "BLOCK",
+  END_BLOCK = "END_BLOCK",
+  SUPER = "SUPER",
+  MACRO = "MACRO",
+  END_MACRO = "END_MACRO",
+  CALL = "CALL",
+  SET = "SET",
+  CAPTURE = "CAPTURE",
+  END_CAPTURE = "END_CAPTURE",
   FOR = "FOR",
+  EMPTY = "EMPTY",
   END_FOR = "END_FOR",
   LIST = "LIST",
   LIST_ITEM = "LIST_ITEM",
@@ -52,6 +75,7 @@ export enum TokenType {
   ROW = "ROW",
   END_ROW = "END_ROW",
   END_TABLE = "END_TABLE",
+  TERNARY = "TERNARY",
   COMMENT = "COMMENT",
   EOF = "EOF",
 }
@@ -64,8 +88,83 @@ export interface Token {
   value: string;
   line: number;
   column: number;
+  trimBefore?: boolean; // {{- ...}} strips whitespace before the tag
+  trimAfter?: boolean; // {{... -}} strips whitespace after the tag
+}
+
+/**
+ * Options that change how a template is tokenized (part of the cache key)
+ */
+export interface CompileOptions {
+  trimBlocks?: boolean;
+}
+
+/**
+ * Format the rendered text is embedded in; every ${{ }} substitution is
+ * escaped for it (plain: no escaping)
+ */
+export type OutputFormat = "markdown" | "html" | "xml" | "json" | "plain";
+
+/**
+ * Options that change how a compiled template renders
+ */
+export interface RenderOptions {
+  strictMode?: boolean;
+  partials?: PartialLoader; // Source of {{INCLUDE}} and {{EXTENDS}} templates
+  locale?: string; // Default locale of formatting filters (e.g. "de-DE"), en-US if unset
+  timeZone?: string; // Default time zone of date filters (e.g. "Europe/Berlin"), UTC if unset
+  now?: Date; // Current time for `now` and relative dates (defaults to the real time)
+  outputFormat?: OutputFormat; // Auto-escaping of substitutions, plain if unset
+  trace?: TraceEntry[]; // Collects the branches and loops taken while rendering
+  renderedVariables?: string[]; // Variables holding output already rendered in this format, not escaped again
 }
 
+/**
+ * What happened at a traced tag: the branch an IF or CASE took, or how many
+ * times a FOR loop ran
+ */
+export type TraceEvent =
+  | {
+      type: "If";
+      branch: "IF" | "ELSEIF" | "ELSE" | null; // null: no branch rendered
+      branchLine: number | null; // Line of the ELSEIF that fired
+    }
+  | {
+      type: "Case";
+      value: string;
+      arm: string | null; // Matched WHEN value, "DEFAULT" or null
+    }
+  | {
+      type: "For";
+      iterable: string;
+      iterations: number;
+    };
+
+/**
+ * Render trace entry: the event and the position of its tag
+ */
+export type TraceEntry = TraceEvent & {
+  line: number;
+  column: number;
+  partial?: string; // Set for tags inside {{INCLUDE}}d partials
+  template?: string; // Set by resolveTemplates
+};
+
+/**
+ * Template rendered by resolveTemplates, addressed as ${{@outputs.<name>}}
+ * by the templates after it
+ */
+export interface NamedTemplate {
+  name: string;
+  template: string;
+}
+
+/**
+ * Partial loader: returns template text for a partial name, or null if the
+ * partial does not exist
+ */
+export type PartialLoader = (name: string) => string | null;
+
 /**
  * Base AST node with position tracking
  */
@@ -93,22 +192,26 @@ export interface TextNode extends ASTNode {
 
 /**
  * Variable substitution node
+ *
+ * Plain paths (${{user.name}}) only set `path`; anything else (math,
+ * ternaries, literals) is parsed into `expression`.
  */
 export interface VariableNode extends ASTNode {
   type: "Variable";
   path: string[];
+  expression?: ExpressionNode;
   defaultValue?: string;
   filters?: FilterCall[];
 }
 
 /**
- * Ternary operator node
+ * Ternary operator node: {{condition ? trueValue : falseValue}}
  */
 export interface TernaryNode extends ASTNode {
   type: "Ternary";
-  condition: string;
-  trueValue: string | TernaryNode;
-  falseValue: string | TernaryNode;
+  condition: ExpressionNode;
+  trueValue: ExpressionNode;
+  falseValue: ExpressionNode;
 }
 
 /**
@@ -116,7 +219,7 @@ export interface TernaryNode extends ASTNode {
  */
 export interface IfNode extends ASTNode {
   type: "If";
-  condition: string;
+  condition: ExpressionNode;
   consequent: ASTNode[];
   alternate: ASTNode[] | IfNode | null;
 }
@@ -126,7 +229,7 @@ export interface IfNode extends ASTNode {
  */
 export interface CaseNode extends ASTNode {
   type: "Case";
-  expression: string;
+  expression: ExpressionNode;
   cases: WhenNode[];
   default: DefaultNode | null;
 }
@@ -154,7 +257,112 @@ export interface DefaultNode extends ASTNode {
 export interface ForNode extends ASTNode {
   type: "For";
   iterable: string[];
+  filters?: FilterCall[]; // {{FOR orders | sort_by=date AS order}}
   itemName: string;
+  keyName?: string; // {{FOR obj AS key, value}}
+  keyOrder?: "insertion" | "alphabetical"; // {{FOR obj AS k, v ORDER alphabetical}}
+  where?: ExpressionNode; // WHERE t.status == "open"
+  sortBy?: SortKey[]; // SORT BY t.priority DESC, t.title
+  reverse?: boolean; // REVERSE
+  offset?: ExpressionNode; // OFFSET 10
+  limit?: ExpressionNode; // LIMIT 5
+  body: ASTNode[];
+  empty?: ASTNode[]; // {{EMPTY}} / {{ELSE}} branch, rendered when nothing to iterate
+}
+
+/**
+ * FOR loop sort key: SORT BY expression [ASC|DESC]
+ */
+export interface SortKey {
+  expression: ExpressionNode;
+  descending: boolean;
+}
+
+/**
+ * Partial include node: {{INCLUDE "safety/base" WITH tone="formal"}}
+ */
+export interface IncludeNode extends ASTNode {
+  type: "Include";
+  name: string;
+  bindings: IncludeBinding[];
+}
+
+/**
+ * WITH binding on an include: name=expression
+ */
+export interface IncludeBinding {
+  name: string;
+  value: ExpressionNode;
+}
+
+/**
+ * Template inheritance node: {{EXTENDS "base"}}
+ */
+export interface ExtendsNode extends ASTNode {
+  type: "Extends";
+  name: string;
+}
+
+/**
+ * Named overridable section: {{BLOCK task}}...{{END_BLOCK}}
+ */
+export interface BlockNode extends ASTNode {
+  type: "Block";
+  name: string;
+  body: ASTNode[];
+}
+
+/**
+ * Parent content of the enclosing block: {{SUPER}}
+ */
+export interface SuperNode extends ASTNode {
+  type: "Super";
+  block: string; // Name of the enclosing block
+}
+
+/**
+ * Macro definition: {{MACRO card(c, show_price=true)}}...{{END_MACRO}}
+ */
+export interface MacroNode extends ASTNode {
+  type: "Macro";
+  name: string;
+  params: MacroParam[];
+  body: ASTNode[];
+}
+
+/**
+ * Macro parameter, optionally with a default value expression
+ */
+export interface MacroParam {
+  name: string;
+  defaultValue?: ExpressionNode;
+}
+
+/**
+ * Macro invocation tag: {{CALL card(customer)}}
+ */
+export interface MacroCallNode extends ASTNode {
+  type: "MacroCall";
+  call: CallExpression;
+}
+
+/**
+ * Template-local binding: {{SET total = price * qty}}
+ *
+ * The value is parsed like a substitution, so defaults (??) and filters work.
+ */
+export interface SetNode extends ASTNode {
+  type: "Set";
+  name: string;
+  value: VariableNode;
+}
+
+/**
+ * Rendered block bound to a name: {{CAPTURE summary}}...{{END_CAPTURE}}
+ */
+export interface CaptureNode extends ASTNode {
+  type: "Capture";
+  name: string;
   body: ASTNode[];
 }
 
@@ -172,7 +380,7 @@ export interface ListNode extends ASTNode {
 export interface ListItemNode extends ASTNode {
   type: "ListItem";
   content: ASTNode[];
-  condition?: string;
+  condition?: ExpressionNode;
   fallback?: string;
 }
 
@@ -211,6 +419,125 @@ export interface CommentNode extends ASTNode {
   content: string;
 }
 
+/**
+ * Base expression node (conditions, math, ternaries) with position tracking
+ */
+export interface ExpressionNode {
+  type: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Literal value: "text", 42, true, null
+ */
+export interface LiteralExpression extends ExpressionNode {
+  type: "Literal";
+  value: string | number | boolean | null;
+}
+
+/**
+ * Variable path: user.name, items.0, @index1
+ */
+export interface PathExpression extends ExpressionNode {
+  type: "Path";
+  path: string[];
+  /** Hyphenated root (a-b) read as subtraction, used when it is not a variable but its operands are */
+  difference?: BinaryExpression;
+}
+
+/**
+ * Prefix operator: NOT(x), -x
+ */
+export interface UnaryExpression extends ExpressionNode {
+  type: "Unary";
+  operator: "NOT" | "-";
+  argument: ExpressionNode;
+}
+
+/**
+ * Math operator: a + b, a * b
+ */
+export interface BinaryExpression extends ExpressionNode {
+  type: "Binary";
+  operator: "+" | "-" | "*" | "/" | "%";
+  left: ExpressionNode;
+  right: ExpressionNode;
+}
+
+/**
+ * Logical operator: a AND b, a OR b
+ */
+export interface LogicalExpression extends ExpressionNode {
+  type: "Logical";
+  operator: "AND" | "OR";
+  left: ExpressionNode;
+  right: ExpressionNode;
+}
+
+/**
+ * Comparison operator: a == b, a >= b
+ */
+export interface ComparisonExpression extends ExpressionNode {
+  type: "Comparison";
+  operator: "==" | "!=" | ">" | "<" | ">=" | "<=";
+  left: ExpressionNode;
+  right: ExpressionNode;
+}
+
+/**
+ * String operator: a contains "x", a startsWith "x", a endsWith "x"
+ */
+export interface StringOpExpression extends ExpressionNode {
+  type: "StringOp";
+  operator: "contains" | "startsWith" | "endsWith";
+  left: ExpressionNode;
+  right: ExpressionNode;
+}
+
+/**
+ * Type check: a isEmpty, a isArray
+ */
+export interface TypeCheckExpression extends ExpressionNode {
+  type: "TypeCheck";
+  check:
+    | "isEmpty"
+    | "isNotEmpty"
+    | "isArray"
+    | "isNumber"
+    | "isObject"
+    | "isBoolean";
+  argument: ExpressionNode;
+}
+
+/**
+ * Conditional expression: test ? consequent : alternate
+ */
+export interface ConditionalExpression extends ExpressionNode {
+  type: "Conditional";
+  test: ExpressionNode;
+  consequent: ExpressionNode;
+  alternate: ExpressionNode;
+}
+
+/**
+ * Macro call: card(customer, show_price=false)
+ */
+export interface CallExpression extends ExpressionNode {
+  type: "Call";
+  callee: string;
+  args: ExpressionNode[];
+  namedArgs: NamedArgument[];
+}
+
+/**
+ * Named call argument: show_price=false
+ */
+export interface NamedArgument {
+  name: string;
+  value: ExpressionNode;
+}
+
 /**
  * Template metadata for debugging
  */
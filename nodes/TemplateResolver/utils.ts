@@ -1,45 +1,518 @@
+import {
+  ASTNode,
+  BinaryExpression,
+  BlockNode,
+  CaptureNode,
+  CaseNode,
+  CompileOptions,
+  ExpressionNode,
+  ForNode,
+  IfNode,
+  IncludeNode,
+  ListNode,
+  MappingType,
+  MacroCallNode,
+  MacroNode,
+  PathExpression,
+  ProgramNode,
+  SetNode,
+  TableNode,
+  TableHeaderNode,
+  TableRowNode,
+  TernaryNode,
+  TemplateValue,
+  VariableMap,
+  VariableNode,
+} from "./types";
+import { parseTemplate } from "./compiler";
+import { BUILTIN_VARIABLES } from "./interpreter";
+import { TemplateError } from "./errors";
+
 /**
  * Extract all variable names from a template string
  *
- * Finds all instances of:
- * - ${{varName}}
- * - ${{user.name}}
- * - {{IF varName}}
- * - {{FOR items AS item}}
- * - {{CASE status}}
+ * Walks the parsed template and collects the root name of every variable
+ * path it reads (${{user.name}} → "user"), in substitutions, conditions,
+ * CASE expressions, FOR iterables and modifiers, ternaries, macro and
+ * include arguments.
+ *
+ * Names bound by the template itself are skipped where they are in scope:
+ * FOR item/key names, SET and CAPTURE names (after their definition) and
+ * macro parameters. Special @ variables and built-ins (now) are never
+ * reported.
  *
- * Returns unique variable names (root level only)
+ * Returns unique variable names (root level only), sorted
  */
 export function extractAllVariables(template: string): string[] {
-  const variables = new Set<string>();
+  return new VariableCollector().collect(parseTemplate(template)).names();
+}
+
+/**
+ * Variable a template reads, with the paths it reads and the shape it needs
+ *
+ * Paths inside FOR loops are written relative to the loop's variable:
+ * `orders[].customer.name` for list items, `config.*` for object values.
+ */
+export interface VariableSchema {
+  name: string;
+  type: "array" | "object" | "value"; // array/object: iterated or read by path
+  paths: string[];
+}
+
+/**
+ * Describe the variables one or more templates need (see VariableSchema)
+ *
+ * Names bound by the templates themselves are skipped, as in
+ * extractAllVariables. Sorted by name.
+ */
+export function extractVariableSchema(
+  templates: string | string[]
+): VariableSchema[] {
+  const collector = new VariableCollector();
+  for (const template of Array.isArray(templates) ? templates : [templates]) {
+    collector.collect(parseTemplate(template));
+  }
+  return collector.schema();
+}
+
+/**
+ * Problem found while checking a template
+ */
+export interface TemplateDiagnostic {
+  type: string; // Error class: SyntaxError, ...
+  message: string;
+  line: number;
+  column: number;
+  suggestion?: string;
+}
 
-  // Match ${{varName}} and ${{user.name}}
-  const varPattern = /\$\{\{([a-zA-Z_@][a-zA-Z0-9_@.]*)/g;
-  let match;
-  while ((match = varPattern.exec(template)) !== null) {
-    const rootVar = match[1].split(".")[0].split("|")[0].split("??")[0].trim();
-    if (rootVar && !rootVar.startsWith("@")) {
-      variables.add(rootVar);
+/**
+ * Lex and parse a template without rendering it
+ *
+ * Returns the syntax errors found (parsing stops at the first one), or an
+ * empty list for a valid template. Partials and parent templates are not
+ * loaded.
+ */
+export function validateTemplate(
+  template: string,
+  options?: CompileOptions
+): TemplateDiagnostic[] {
+  try {
+    parseTemplate(template, options);
+    return [];
+  } catch (error) {
+    return [toDiagnostic(error)];
+  }
+}
+
+function toDiagnostic(error: unknown): TemplateDiagnostic {
+  if (error instanceof TemplateError) {
+    return {
+      type: error.name,
+      message: error.reason,
+      line: error.line,
+      column: error.column,
+      ...(error.suggestion !== undefined && { suggestion: error.suggestion }),
+    };
+  }
+  return {
+    type: error instanceof Error ? error.name : "Error",
+    message: error instanceof Error ? error.message : String(error),
+    line: 1,
+    column: 1,
+  };
+}
+
+/**
+ * Build a variable map from an input item's JSON
+ *
+ * Every top-level field becomes a variable. With a dotted sub-path
+ * ("body.customer", "orders.0") the fields of the object at that path are
+ * used instead. Throws when the path does not lead to an object.
+ */
+export function itemVariables(
+  json: { [key: string]: unknown },
+  path = ""
+): VariableMap {
+  let root: unknown = json;
+  const segments = path.trim() ? path.trim().split(".") : [];
+
+  for (const segment of segments) {
+    if (root === null || typeof root !== "object") {
+      root = undefined;
+      break;
     }
+    root = (root as Record<string, unknown>)[segment];
+  }
+
+  if (root === null || typeof root !== "object" || Array.isArray(root)) {
+    throw new Error(
+      `Input item path "${path.trim()}" is not an object (found ${describeValue(root)})`
+    );
   }
 
-  // Match {{IF varName}}, {{CASE varName}}, etc.
-  const controlPattern = /\{\{(IF|CASE|FOR)\s+([a-zA-Z_][a-zA-Z0-9_@.]*)/gi;
-  while ((match = controlPattern.exec(template)) !== null) {
-    const rootVar = match[2].split(".")[0].split(" ")[0].trim();
-    if (rootVar && !rootVar.startsWith("@")) {
-      variables.add(rootVar);
+  return new Map(Object.entries(root as Record<string, TemplateValue>));
+}
+
+/**
+ * Validate and convert a node variable mapping to its declared type
+ *
+ * JSON and Array mappings accept parsed values or JSON text. Throws an
+ * error naming the mapping when the value does not fit the type.
+ */
+export function convertMappingValue(
+  name: string,
+  type: MappingType,
+  value: unknown
+): TemplateValue {
+  const fail = (expected: string): Error =>
+    new Error(
+      `Variable mapping "${name}" (${type}) expects ${expected}, got ${describeMappingValue(value)}`
+    );
+
+  switch (type) {
+    case "auto":
+      return value as TemplateValue;
+
+    case "string":
+      if (value == null) return "";
+      return typeof value === "object" ? JSON.stringify(value) : String(value);
+
+    case "number": {
+      const number =
+        typeof value === "string" && value.trim() !== ""
+          ? Number(value)
+          : value;
+      if (typeof number !== "number" || !Number.isFinite(number)) {
+        throw fail("a number");
+      }
+      return number;
+    }
+
+    case "boolean":
+      if (typeof value === "boolean") return value;
+      if (typeof value === "string" && /^(true|false)$/i.test(value.trim())) {
+        return value.trim().toLowerCase() === "true";
+      }
+      throw fail("true or false");
+
+    case "json":
+    case "array": {
+      const parsed = typeof value === "string" ? parseJson(value) : value;
+      if (parsed === undefined) throw fail("valid JSON");
+      if (type === "array" && !Array.isArray(parsed)) {
+        throw fail("a JSON array");
+      }
+      return parsed as TemplateValue;
     }
   }
+}
 
-  // Match ternary conditions: {{varName ? ... : ...}}
-  const ternaryPattern = /\{\{([a-zA-Z_][a-zA-Z0-9_@.]*)\s*\?/g;
-  while ((match = ternaryPattern.exec(template)) !== null) {
-    const rootVar = match[1].split(".")[0].trim();
-    if (rootVar && !rootVar.startsWith("@")) {
-      variables.add(rootVar);
+/**
+ * Parse JSON text, undefined when it is not valid JSON
+ */
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Short description of a mapping value for error messages
+ */
+function describeMappingValue(value: unknown): string {
+  if (typeof value === "string") {
+    const text = value.length > 40 ? `${value.slice(0, 40)}...` : value;
+    return text.trim() === "" ? "an empty value" : JSON.stringify(text);
+  }
+  return describeValue(value);
+}
+
+function describeValue(value: unknown): string {
+  if (value === undefined) return "nothing";
+  if (Array.isArray(value)) return "a list";
+  if (value === null) return "null";
+  return typeof value === "object" ? "an object" : `a ${typeof value}`;
+}
+
+/**
+ * Scoped AST walk behind extractAllVariables and extractVariableSchema
+ */
+class VariableCollector {
+  /**
+   * Paths read per top-level variable
+   */
+  private paths: Map<string, Set<string>> = new Map();
+
+  /**
+   * Paths used as FOR iterables: iterated by item (array) or by key (object)
+   */
+  private iterated: Map<string, "array" | "object"> = new Map();
+
+  /**
+   * Names bound by the template, innermost scope last. FOR items map to the
+   * path they stand for (orders[]); other bindings map to null.
+   */
+  private scopes: Map<string, string[] | null>[] = [];
+
+  collect(ast: ProgramNode): this {
+    this.scopes = [new Map()];
+    this.visitAll(ast.body);
+    return this;
+  }
+
+  names(): string[] {
+    return Array.from(this.paths.keys()).sort();
+  }
+
+  schema(): VariableSchema[] {
+    return this.names().map((name) => {
+      const paths = Array.from(this.paths.get(name) ?? []).sort();
+      const type =
+        this.iterated.get(name) ??
+        (paths.some((path) => path !== name) ? "object" : "value");
+      return { name, type, paths };
+    });
+  }
+
+  private visitAll(nodes: ASTNode[]): void {
+    for (const node of nodes) {
+      this.visit(node);
+    }
+  }
+
+  private visit(node: ASTNode): void {
+    switch (node.type) {
+      case "Variable":
+        this.visitVariable(node as VariableNode);
+        break;
+
+      case "Ternary": {
+        const ternary = node as TernaryNode;
+        this.expression(ternary.condition);
+        this.expression(ternary.trueValue);
+        this.expression(ternary.falseValue);
+        break;
+      }
+
+      case "If": {
+        const ifNode = node as IfNode;
+        this.expression(ifNode.condition);
+        this.visitAll(ifNode.consequent);
+        if (Array.isArray(ifNode.alternate)) {
+          this.visitAll(ifNode.alternate);
+        } else if (ifNode.alternate) {
+          this.visit(ifNode.alternate);
+        }
+        break;
+      }
+
+      case "Case": {
+        const caseNode = node as CaseNode;
+        this.expression(caseNode.expression);
+        caseNode.cases.forEach((when) => this.visitAll(when.body));
+        if (caseNode.default) this.visitAll(caseNode.default.body);
+        break;
+      }
+
+      case "For":
+        this.visitFor(node as ForNode);
+        break;
+
+      case "Include":
+        (node as IncludeNode).bindings.forEach((b) => this.expression(b.value));
+        break;
+
+      case "Block":
+        this.visitAll((node as BlockNode).body);
+        break;
+
+      case "Macro": {
+        const macro = node as MacroNode;
+        this.scoped(new Map(macro.params.map((p) => [p.name, null])), () => {
+          macro.params.forEach((p) => this.expression(p.defaultValue));
+          this.visitAll(macro.body);
+        });
+        break;
+      }
+
+      case "MacroCall":
+        this.expression((node as MacroCallNode).call);
+        break;
+
+      case "Set": {
+        const set = node as SetNode;
+        this.visitVariable(set.value);
+        this.bind(set.name);
+        break;
+      }
+
+      case "Capture": {
+        const capture = node as CaptureNode;
+        this.visitAll(capture.body);
+        this.bind(capture.name);
+        break;
+      }
+
+      case "List":
+        for (const item of (node as ListNode).items) {
+          this.expression(item.condition);
+          this.visitAll(item.content);
+        }
+        break;
+
+      case "Table": {
+        const table = node as TableNode;
+        if (table.header) this.visit(table.header);
+        table.rows.forEach((row) => this.visit(row));
+        break;
+      }
+
+      case "Header":
+      case "TableRow":
+        for (const cell of (node as TableHeaderNode | TableRowNode).cells) {
+          this.visitAll(cell);
+        }
+        break;
+    }
+  }
+
+  private visitVariable(node: VariableNode): void {
+    if (node.expression) {
+      this.expression(node.expression);
+    } else {
+      this.reference(node.path);
+    }
+  }
+
+  private visitFor(node: ForNode): void {
+    const iterable = this.resolve(node.iterable);
+    if (iterable) {
+      this.record(iterable);
+      this.iterated.set(
+        formatPath(iterable),
+        node.keyName ? "object" : "array"
+      );
+    }
+
+    const bindings = new Map<string, string[] | null>([
+      [node.itemName, iterable && [...iterable, node.keyName ? "*" : "[]"]],
+    ]);
+    if (node.keyName) bindings.set(node.keyName, null);
+    this.scoped(bindings, () => {
+      this.expression(node.where);
+      node.sortBy?.forEach((key) => this.expression(key.expression));
+      this.expression(node.offset);
+      this.expression(node.limit);
+      this.visitAll(node.body);
+    });
+
+    if (node.empty) this.visitAll(node.empty);
+  }
+
+  /**
+   * Collect every path in an expression tree (call arguments included)
+   */
+  private expression(node: ExpressionNode | undefined): void {
+    if (!node) return;
+    if (node.type === "Path") {
+      const { path, difference } = node as PathExpression;
+      // a-1 over a loop item or SET name subtracts rather than naming a-1
+      if (difference && !this.bound(path[0]) && this.bindsOperand(difference)) {
+        this.expression(difference);
+      } else {
+        this.reference(path);
+      }
+      return;
+    }
+
+    for (const child of Object.values(node) as unknown[]) {
+      const items: unknown[] = Array.isArray(child) ? child : [child];
+      for (const item of items) {
+        if (item === null || typeof item !== "object") continue;
+        // Named call arguments wrap their expression: { name, value }
+        this.expression(
+          "type" in item
+            ? (item as ExpressionNode)
+            : (item as { value: ExpressionNode }).value
+        );
+      }
+    }
+  }
+
+  private reference(path: string[]): void {
+    const resolved = this.resolve(path);
+    if (resolved) this.record(resolved);
+  }
+
+  /**
+   * Top-level path a path reads (loop items replaced by what they stand
+   * for), or null for special, built-in and template-bound names
+   */
+  private resolve(path: string[]): string[] | null {
+    const root = path[0];
+    if (!root || root.startsWith("@") || BUILTIN_VARIABLES.includes(root)) {
+      return null;
+    }
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      if (this.scopes[i].has(root)) {
+        const alias = this.scopes[i].get(root);
+        return alias ? [...alias, ...path.slice(1)] : null;
+      }
     }
+    return path;
   }
 
-  return Array.from(variables).sort();
+  /**
+   * Whether the template binds a name (loop item, SET, CAPTURE, macro param)
+   */
+  private bound(name: string): boolean {
+    return this.scopes.some((scope) => scope.has(name));
+  }
+
+  /**
+   * Whether any operand of a hyphen subtraction is bound by the template
+   */
+  private bindsOperand(node: ExpressionNode): boolean {
+    if (node.type === "Path")
+      return this.bound((node as PathExpression).path[0]);
+    if (node.type !== "Binary") return false;
+    const { left, right } = node as BinaryExpression;
+    return this.bindsOperand(left) || this.bindsOperand(right);
+  }
+
+  private record(path: string[]): void {
+    const paths = this.paths.get(path[0]) ?? new Set();
+    paths.add(formatPath(path));
+    this.paths.set(path[0], paths);
+  }
+
+  private bind(name: string): void {
+    this.scopes[this.scopes.length - 1].set(name, null);
+  }
+
+  private scoped(
+    bindings: Map<string, string[] | null>,
+    callback: () => void
+  ): void {
+    this.scopes.push(bindings);
+    try {
+      callback();
+    } finally {
+      this.scopes.pop();
+    }
+  }
+}
+
+/**
+ * Dotted form of a path: ["orders", "[]", "total"] → "orders[].total"
+ */
+function formatPath(path: string[]): string {
+  return path
+    .map((segment, index) =>
+      segment === "[]" || index === 0 ? segment : `.${segment}`
+    )
+    .join("");
 }